@@ -0,0 +1,65 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises"
+import { build } from "esbuild"
+import builtinModules from "builtin-modules"
+import { join } from "node:path"
+import process from "node:process"
+import { spawn } from "node:child_process"
+import { tmpdir } from "node:os"
+
+const SOURCE = "src",
+	TEST_REGEX = /\.test\.ts$/u,
+	OUTPUT_REGEX = /\.test\.cjs$/u,
+	// Provided by Obsidian at runtime, so what tests reach is a no-op
+	OBSIDIAN = [
+		"module.exports = Object.create(new Proxy({}, {",
+		"\tget: (_, key) => key === \"__esModule\" ? void 0 : function noop() {},",
+		"}))",
+	].join("\n"),
+	OUTDIR = await mkdtemp(join(tmpdir(), "test-"))
+
+try {
+	await build({
+		// Obsidian runs plugins in a window, where `self` is the global object
+		banner: { js: "globalThis.self = globalThis" },
+		bundle: true,
+		entryPoints: (await readdir(SOURCE, { recursive: true }))
+			.filter(file => TEST_REGEX.test(file))
+			.map(file => join(SOURCE, file)),
+		external: ["node:*", ...builtinModules],
+		format: "cjs",
+		loader: {
+			".md": "text",
+			".py": "text",
+		},
+		logLevel: "warning",
+		outExtension: { ".js": ".cjs" },
+		outbase: SOURCE,
+		outdir: OUTDIR,
+		platform: "node",
+		plugins: [
+			{
+				name: "obsidian",
+				setup(build0) {
+					build0.onResolve({
+						filter: /^obsidian$/, // eslint-disable-line require-unicode-regexp
+					}, ({ path }) => ({ namespace: "obsidian", path }))
+					build0.onLoad({
+						filter: /.*/, // eslint-disable-line require-unicode-regexp
+						namespace: "obsidian",
+					}, () => ({ contents: OBSIDIAN, loader: "js" }))
+				},
+			},
+		],
+		target: "ES2018",
+	})
+	const files = (await readdir(OUTDIR, { recursive: true }))
+		.filter(file => OUTPUT_REGEX.test(file))
+		.map(file => join(OUTDIR, file))
+	process.exitCode = await new Promise((resolve, reject) => {
+		spawn(process.execPath, ["--test", ...files], { stdio: "inherit" })
+			.once("error", reject)
+			.once("exit", code => { resolve(code ?? 1) })
+	})
+} finally {
+	await rm(OUTDIR, { force: true, recursive: true })
+}
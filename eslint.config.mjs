@@ -613,6 +613,21 @@ export default defineConfig([
 			"@typescript-eslint/prefer-readonly-parameter-types": ["off"],
 		},
 	},
+	{
+		files: ["src/**/*.test.ts"],
+		rules: {
+			"@typescript-eslint/no-floating-promises": ["error", {
+				allowForKnownSafeCalls: [
+					{
+						from: "package",
+						name: ["describe", "it"],
+						"package": "node:test",
+					},
+				],
+				ignoreIIFE: true,
+			}],
+		},
+	},
 	/*
 	{
 		files: ["**!?!?!?!?!?/*.svelte"],
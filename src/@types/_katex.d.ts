@@ -0,0 +1,7 @@
+// Only registers `\ce` and `\pu` on the KaTeX instance it imports
+declare module "katex/contrib/mhchem" { }
+declare module "katex/contrib/render-a11y-string" {
+	import type { KatexOptions } from "katex"
+	function renderA11yString(text: string, settings?: KatexOptions): string
+	export = renderA11yString
+}
@@ -0,0 +1,12 @@
+declare global {
+	interface Window {
+		// Set by `loadMathJax`, typed only as far as it is used
+		// eslint-disable-next-line @typescript-eslint/naming-convention
+		readonly MathJax?: {
+			readonly tex2svg?: (
+				math: string,
+				options?: { readonly display?: boolean },
+			) => HTMLElement
+		}
+	}
+}
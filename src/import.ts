@@ -11,6 +11,8 @@ const BUNDLE0 = deepFreeze({
 	// eslint-disable-next-line @typescript-eslint/naming-convention
 	"@xterm/addon-fit": (): unknown => require("@xterm/addon-fit"),
 	// eslint-disable-next-line @typescript-eslint/naming-convention
+	"@xterm/addon-image": (): unknown => require("@xterm/addon-image"),
+	// eslint-disable-next-line @typescript-eslint/naming-convention
 	"@xterm/addon-ligatures": (): unknown => require("@xterm/addon-ligatures"),
 	// eslint-disable-next-line @typescript-eslint/naming-convention
 	"@xterm/addon-search": (): unknown => require("@xterm/addon-search"),
@@ -24,6 +26,12 @@ const BUNDLE0 = deepFreeze({
 	"@xterm/addon-webgl": (): unknown => require("@xterm/addon-webgl"),
 	// eslint-disable-next-line @typescript-eslint/naming-convention
 	"@xterm/xterm": (): unknown => require("@xterm/xterm"),
+	katex: (): unknown => require("katex"),
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	"katex/contrib/mhchem": (): unknown => require("katex/contrib/mhchem"),
+	// eslint-disable-next-line @typescript-eslint/naming-convention
+	"katex/contrib/render-a11y-string": (): unknown =>
+		require("katex/contrib/render-a11y-string"),
 	// eslint-disable-next-line @typescript-eslint/naming-convention
 	"tmp-promise": (): unknown => require("tmp-promise"),
 })
@@ -33,6 +41,7 @@ export const
 	MODULES = typedKeys<readonly [
 		"@xterm/addon-canvas",
 		"@xterm/addon-fit",
+		"@xterm/addon-image",
 		"@xterm/addon-ligatures",
 		"@xterm/addon-search",
 		"@xterm/addon-serialize",
@@ -40,5 +49,8 @@ export const
 		"@xterm/addon-web-links",
 		"@xterm/addon-webgl",
 		"@xterm/xterm",
+		"katex",
+		"katex/contrib/mhchem",
+		"katex/contrib/render-a11y-string",
 		"tmp-promise",
 	]>()(BUNDLE0)
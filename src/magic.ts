@@ -6,15 +6,32 @@ export const
 	DEFAULT_ENCODING = "utf-8",
 	DEFAULT_PYTHON_EXECUTABLE = "python3",
 	DEFAULT_PYTHONIOENCODING = `${DEFAULT_ENCODING}:backslashreplace`,
+	EQUATION_PNG_SCALE = 2,
 	EXIT_SUCCESS = 0,
 	DEFAULT_SUCCESS_EXIT_CODES = deepFreeze([
 		EXIT_SUCCESS.toString(),
 		"SIGINT",
 		"SIGTERM",
 	]),
+	LATEX_RENDER_FRAME_BUDGET = 8,
+	MATH_RELAYOUT_WAIT = 0.1,
+	MATH_STRESS_TEST_EQUATIONS = 1000,
+	MAX_EQUATION_HISTORY = 4096,
 	MAX_HISTORY = 1024,
+	MAX_LATEX_RENDER_CACHE = 1024,
 	MAX_LOCK_PENDING = Infinity,
+	MAX_MARKDOWN_BLOCK_LINES = 256,
+	MAX_MATH_SPAN_CARRY = 4096,
+	PAGER_PROGRAMS = deepFreeze(["less", "man", "more", "most", "pg"]),
 	PLUGIN_UNLOAD_DELAY = 10,
+	PRESENTATION_FONT_SCALE = 2,
+	PRESENTATION_MATH_SCALE = 1.5,
+	// High contrast for projectors, keeping the palette of the profile
+	PRESENTATION_THEME = deepFreeze({
+		background: "#000000",
+		cursor: "#ffffff",
+		foreground: "#ffffff",
+	}),
 	PYTHON_REQUIREMENTS = deepFreeze({
 		// Update `README.md`, `magic.ts`, and `requirements.txt` together.
 		// eslint-disable-next-line @typescript-eslint/naming-convention
@@ -27,10 +44,18 @@ export const
 		readonly platforms: readonly Platform.All[]
 		readonly version: SemVer
 	}>>,
+	// eslint-disable-next-line @typescript-eslint/no-magic-numbers
+	REPLAY_SPEEDS = deepFreeze([0.25, 0.5, 1, 2, 4, 8, 16]),
+	REPLAYABLE_TERMINAL_WRITE_LOG_EXTENSION = "jsonl",
+	RICH_OUTPUT_ENVIRONMENT_VARIABLE = "LATERM_RICH_OUTPUT",
+	RICH_OUTPUT_OSC_IDENTIFIER = 7772,
+	RICH_OUTPUT_TYPES = deepFreeze(["text/latex"]),
 	TERMINAL_EMULATOR_RESIZE_WAIT = 0.1,
 	TERMINAL_EXIT_CLEANUP_WAIT = 5,
 	TERMINAL_PTY_RESIZE_WAIT = 0.5,
 	TERMINAL_RESIZER_WATCHDOG_WAIT = 0.5,
+	TERMINAL_WRITE_LOG_DIRECTORY = "logs",
+	TERMINAL_WRITE_LOG_PREVIEW_LENGTH = 100,
 	WINDOWS_CMD_PATH = "C:\\Windows\\System32\\cmd.exe",
 	WINDOWS_CONHOST_PATH = "C:\\Windows\\System32\\conhost.exe"
 
@@ -40,6 +65,10 @@ export namespace DOMClasses2 {
 		SVG_ICON = "svg-icon"
 	export namespace Namespaced {
 		export const
+			EQUATION = "equation",
+			EQUATION_GALLERY = "equation-gallery",
+			MARKDOWN = "markdown",
+			MATH = "math",
 			TERMINAL = "terminal"
 	}
 }
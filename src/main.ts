@@ -14,6 +14,8 @@ import {
 import { LocalSettings, Settings } from "./settings-data.js"
 import { MAX_HISTORY, PLUGIN_UNLOAD_DELAY } from "./magic.js"
 import { DeveloperConsolePseudoterminal } from "./terminal/pseudoterminal.js"
+import { LatexPreamble } from "./terminal/latex-preamble.js"
+import { LatexRenderCache } from "./terminal/latex-cache.js"
 import { PluginLocales } from "../assets/locales.js"
 import { isNil } from "lodash-es"
 import { loadDocumentations } from "./documentations.js"
@@ -31,6 +33,9 @@ export class TerminalPlugin
 	public readonly developerConsolePTY =
 		new DeveloperConsolePseudoterminal.Manager(this)
 
+	public readonly latexPreamble = new LatexPreamble(this)
+	public readonly latexCache = new LatexRenderCache(this)
+
 	public readonly earlyPatch
 	public readonly statusBarHider = new StatusBarHider(this)
 
@@ -78,6 +83,8 @@ export class TerminalPlugin
 						developerConsolePTY,
 						earlyPatch,
 						language,
+						latexCache,
+						latexPreamble,
 						localSettings,
 						statusBarHider,
 						settings,
@@ -86,6 +93,8 @@ export class TerminalPlugin
 					// Placeholder to resolve merge conflicts more easily
 					children = [
 						developerConsolePTY,
+						latexCache,
+						latexPreamble,
 						statusBarHider,
 					]
 				for (const child of earlyChildren) { child.unload() }
@@ -4,7 +4,10 @@ import {
 	PYTHON_REQUIREMENTS,
 } from "./magic.js"
 import {
+	DEFAULT_LATEX_OPTIONS,
 	DEFAULT_TERMINAL_OPTIONS,
+	LATEX_DELIMITER_PRESETS,
+	LATEX_DELIMITER_PRESET_ORDERED_KEYS,
 	PROFILE_PRESETS,
 	PROFILE_PRESET_ORDERED_KEYS,
 } from "./terminal/profile-presets.js"
@@ -40,7 +43,7 @@ import {
 	useSubsettings,
 } from "@polyipseity/obsidian-plugin-library"
 import { Modal, type Setting } from "obsidian"
-import { constant, identity, noop } from "lodash-es"
+import { constant, identity, isEqual, noop } from "lodash-es"
 import { BUNDLE } from "./import.js"
 import type { DeepWritable } from "ts-essentials"
 import { PROFILE_PROPERTIES } from "./terminal/profile-properties.js"
@@ -300,6 +303,29 @@ export class TerminalOptionsModal
 						async () => this.postMutate2(errorEl),
 					))
 			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.terminal-options.screen-reader-mode"))
+					.setDesc(i18n
+						.t("components.terminal-options.screen-reader-mode-description"))
+					.addToggle(linkSetting(
+						() => data.screenReaderMode ?? false,
+						value => { data.screenReaderMode = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.terminal-options.screen-reader-mode-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => {
+							assignExact(
+								data,
+								"screenReaderMode",
+								DEFAULT_TERMINAL_OPTIONS.screenReaderMode,
+							)
+						},
+						async () => this.postMutate2(errorEl),
+					))
+			})
 		super.draw(ui, element, errorEl)
 	}
 
@@ -316,6 +342,343 @@ export namespace TerminalOptionsModal {
 	export type Options = Omit<InitialOptions, keyof PredefinedOptions>
 }
 
+export class LatexOptionsModal
+	extends EditDataModal<Settings.Profile.Latex> {
+	public constructor(
+		context: TerminalPlugin,
+		data: Settings.Profile.Latex,
+		options?: LatexOptionsModal.Options,
+	) {
+		const { language: { value: i18n } } = context
+		super(context, data, Settings.Profile.fixLatex, {
+			...options,
+			elements: ["data"],
+			title: () => i18n.t("components.latex-options.title"),
+		})
+	}
+
+	protected override draw(
+		ui: UpdatableUI,
+		element: HTMLElement,
+		errorEl: StatusUI,
+	): void {
+		const { context: { language: { value: i18n } }, data } = this
+		ui
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.enabled"))
+					.addToggle(linkSetting(
+						() => data.enabled,
+						value => { data.enabled = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.enabled-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.enabled = DEFAULT_LATEX_OPTIONS.enabled },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.engine"))
+					.setDesc(i18n.t("components.latex-options.engine-description"))
+					.addDropdown(linkSetting(
+						(): string => data.engine,
+						setTextToEnum(
+							Settings.Profile.Latex.ENGINES,
+							value => { data.engine = value },
+						),
+						async () => this.postMutate2(errorEl),
+						{
+							pre: dropdown => {
+								dropdown.addOptions(Object.fromEntries(Settings.Profile
+									.Latex.ENGINES.map(value => [
+										value,
+										i18n.t(`components.latex-options.engines.${value}`),
+									])))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.engine-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.engine = DEFAULT_LATEX_OPTIONS.engine },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.inline"))
+					.setDesc(i18n.t("components.latex-options.inline-description"))
+					.addToggle(linkSetting(
+						() => data.inline,
+						value => { data.inline = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.inline-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.inline = DEFAULT_LATEX_OPTIONS.inline },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.display"))
+					.setDesc(i18n.t("components.latex-options.display-description"))
+					.addToggle(linkSetting(
+						() => data.display,
+						value => { data.display = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.display-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.display = DEFAULT_LATEX_OPTIONS.display },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.delimiters"))
+					.setDesc(i18n.t("components.latex-options.delimiters-description", {
+						count: data.delimiters.length,
+						interpolation: { escapeValue: false },
+					}))
+					.addDropdown(linkSetting(
+						(): string => LATEX_DELIMITER_PRESET_ORDERED_KEYS
+							.find(key =>
+								isEqual(LATEX_DELIMITER_PRESETS[key], data.delimiters))
+							?? "",
+						value => {
+							if (!inSet(LATEX_DELIMITER_PRESET_ORDERED_KEYS, value)) { return }
+							data.delimiters = cloneAsWritable(LATEX_DELIMITER_PRESETS[value])
+						},
+						async () => this.postMutate2(errorEl),
+						{
+							pre: component => {
+								component
+									.addOption("", i18n
+										.t("components.latex-options.delimiters-placeholder"))
+									.addOptions(Object.fromEntries(
+										LATEX_DELIMITER_PRESET_ORDERED_KEYS.map(key => [
+											key,
+											i18n
+												.t(`components.latex-options.delimiter-presets.${key}`),
+										]),
+									))
+							},
+						},
+					))
+					.addButton(button => button
+						.setIcon(i18n
+							.t("asset:components.latex-options.delimiters-edit-icon"))
+						.setTooltip(i18n.t("components.latex-options.delimiters-edit"))
+						.onClick(() => {
+							new EditDataModal(
+								this.context,
+								data.delimiters,
+								Settings.Profile.fixLatexDelimiters,
+								{
+									callback: async (value): Promise<void> => {
+										data.delimiters = value
+										await this.postMutate2(errorEl)
+									},
+									title(): string {
+										return i18n.t("components.latex-options.delimiters")
+									},
+								},
+							).open()
+						}))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.delimiters-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => {
+							data.delimiters =
+								cloneAsWritable(DEFAULT_LATEX_OPTIONS.delimiters)
+						},
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.heuristics"))
+					.setDesc(i18n.t("components.latex-options.heuristics-description"))
+					.addToggle(linkSetting(
+						() => data.heuristics,
+						value => { data.heuristics = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.heuristics-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.heuristics = DEFAULT_LATEX_OPTIONS.heuristics },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.alternate-screen"))
+					.setDesc(i18n
+						.t("components.latex-options.alternate-screen-description"))
+					.addDropdown(linkSetting(
+						(): string => data.alternateScreen,
+						setTextToEnum(
+							Settings.Profile.Latex.ALTERNATE_SCREEN_POLICIES,
+							value => { data.alternateScreen = value },
+						),
+						async () => this.postMutate2(errorEl),
+						{
+							pre: dropdown => {
+								dropdown.addOptions(Object.fromEntries(Settings.Profile
+									.Latex.ALTERNATE_SCREEN_POLICIES.map(value => [
+										value,
+										i18n
+											.t(`components.latex-options.alternate-screens.${value}`),
+									])))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.alternate-screen-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => {
+							data.alternateScreen = DEFAULT_LATEX_OPTIONS.alternateScreen
+						},
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.markdown"))
+					.setDesc(i18n.t("components.latex-options.markdown-description"))
+					.addToggle(linkSetting(
+						() => data.markdown,
+						value => { data.markdown = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.markdown-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.markdown = DEFAULT_LATEX_OPTIONS.markdown },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.mode"))
+					.setDesc(i18n.t("components.latex-options.mode-description"))
+					.addDropdown(linkSetting(
+						(): string => data.mode,
+						setTextToEnum(
+							Settings.Profile.Latex.MODES,
+							value => { data.mode = value },
+						),
+						async () => this.postMutate2(errorEl),
+						{
+							pre: dropdown => {
+								dropdown.addOptions(Object.fromEntries(Settings.Profile
+									.Latex.MODES.map(value => [
+										value,
+										i18n.t(`components.latex-options.modes.${value}`),
+									])))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.mode-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.mode = DEFAULT_LATEX_OPTIONS.mode },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+		for (const extension of Settings.Profile.Latex.EXTENSIONS) {
+			ui.newSetting(element, setting => {
+				setting
+					.setName(i18n.t(`components.latex-options.${extension}`))
+					.setDesc(i18n
+						.t(`components.latex-options.${extension}-description`))
+					.addToggle(linkSetting(
+						() => data.extensions.includes(extension),
+						value => {
+							data.extensions = Settings.Profile.Latex.EXTENSIONS
+								.filter(extension0 => extension0 === extension
+									? value
+									: data.extensions.includes(extension0))
+						},
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t(`asset:components.latex-options.${extension}-icon`),
+						i18n.t("components.edit-data.reset"),
+						() => {
+							data.extensions = Settings.Profile.Latex.EXTENSIONS
+								.filter(extension0 => (extension0 === extension
+									? DEFAULT_LATEX_OPTIONS.extensions
+									: data.extensions).includes(extension0))
+						},
+						async () => this.postMutate2(errorEl),
+					))
+			})
+		}
+		ui
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.font-scale"))
+					.setDesc(i18n.t("components.latex-options.font-scale-description"))
+					.addText(linkSetting(
+						() => data.fontScale.toString(),
+						setTextToNumber(value => { data.fontScale = value }),
+						async () => this.postMutate2(errorEl),
+						{
+							post(component) {
+								component.inputEl.type = "number"
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.font-scale-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => { data.fontScale = DEFAULT_LATEX_OPTIONS.fontScale },
+						async () => this.postMutate2(errorEl),
+					))
+			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.latex-options.debug-logging"))
+					.setDesc(i18n
+						.t("components.latex-options.debug-logging-description"))
+					.addToggle(linkSetting(
+						() => data.debugLogging,
+						value => { data.debugLogging = value },
+						async () => this.postMutate2(errorEl),
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.latex-options.debug-logging-icon"),
+						i18n.t("components.edit-data.reset"),
+						() => {
+							data.debugLogging = DEFAULT_LATEX_OPTIONS.debugLogging
+						},
+						async () => this.postMutate2(errorEl),
+					))
+			})
+		super.draw(ui, element, errorEl)
+	}
+
+	protected async postMutate2(errorEl: StatusUI): Promise<void> {
+		errorEl.report()
+		await this.postMutate()
+	}
+}
+export namespace LatexOptionsModal {
+	type InitialOptions = EditDataModal.Options<Settings.Profile.Latex>
+	export type PredefinedOptions = {
+		readonly [K in never]: InitialOptions[K]
+	}
+	export type Options = Omit<InitialOptions, keyof PredefinedOptions>
+}
+
 export class ProfileModal extends Modal {
 	protected readonly modalUI = new UpdatableUI()
 	protected readonly ui = new UpdatableUI()
@@ -564,6 +927,35 @@ export class ProfileModal extends Modal {
 						async () => this.postMutate(),
 					))
 			})
+			.newSetting(element, setting => {
+				setting
+					.setName(i18n.t("components.profile.latex-options"))
+					.addButton(button => button
+						.setIcon(i18n
+							.t("asset:components.profile.latex-options-edit-icon"))
+						.setTooltip(i18n.t("components.profile.latex-options-edit"))
+						.onClick(() => {
+							new LatexOptionsModal(
+								context,
+								profile.latex,
+								{
+									callback: async (value): Promise<void> => {
+										profile.latex = value
+										await this.postMutate()
+									},
+								},
+							).open()
+						}))
+					.addExtraButton(resetButton(
+						i18n.t("asset:components.profile.latex-options-icon"),
+						i18n.t("components.profile.reset"),
+						() => {
+							profile.latex =
+								cloneAsWritable(Settings.Profile.DEFAULTS[profile.type].latex)
+						},
+						async () => this.postMutate(),
+					))
+			})
 			.newSetting(element, setting => {
 				const { settingEl } = setting
 				setting
@@ -21,6 +21,7 @@ import {
 	semVerString,
 } from "@polyipseity/obsidian-plugin-library"
 import {
+	DEFAULT_LATEX_OPTIONS,
 	DEFAULT_LINK_HANDLER,
 	DEFAULT_LOGGER,
 	DEFAULT_TERMINAL_OPTIONS,
@@ -85,9 +86,14 @@ export interface Settings extends PluginContext.Settings {
 	readonly openChangelogOnUpdate: boolean
 	readonly hideStatusBar: Settings.HideStatusBarOption
 
+	readonly htmlExportMath: Settings.HTMLExportMath
+	readonly latexGuards: Settings.LatexGuards
+	readonly latexPreamble: string
+
 	readonly exposeInternalModules: boolean
 	readonly interceptLogging: boolean
 	readonly enableTerminalWriteLogging: boolean
+	readonly terminalWriteLogFormat: Settings.TerminalWriteLogFormat
 	readonly theme: string
 	// Renderer preference removed - DOM-only now
 }
@@ -113,8 +119,17 @@ export namespace Settings {
 		exposeInternalModules: true,
 		focusOnNewInstance: true,
 		hideStatusBar: "focused",
+		htmlExportMath: "KaTeX",
 		interceptLogging: true,
 		language: "",
+		latexGuards: {
+			allow: [],
+			deny: [],
+			identifiers: true,
+			mathTokens: true,
+			prompts: true,
+		},
+		latexPreamble: "",
 		newInstanceBehavior: "newHorizontalSplit",
 		noticeTimeout: 5,
 		openChangelogOnUpdate: true,
@@ -129,6 +144,7 @@ export namespace Settings {
 			"win32IntegratedDefault",
 		] satisfies readonly (keyof typeof PROFILE_PRESETS)[])
 			.map(key => [key, PROFILE_PRESETS[key]])),
+		terminalWriteLogFormat: "summary",
 		theme: "{}",
 	})
 
@@ -152,6 +168,46 @@ export namespace Settings {
 		deepFreeze(["never", "always", "focused", "running"])
 	export type HideStatusBarOption = typeof HIDE_STATUS_BAR_OPTIONS[number]
 
+	export const HTML_EXPORT_MATH_OPTIONS = deepFreeze(["KaTeX", "MathML"])
+	export type HTMLExportMath = typeof HTML_EXPORT_MATH_OPTIONS[number]
+
+	export const TERMINAL_WRITE_LOG_FORMATS =
+		deepFreeze(["summary", "replayable"])
+	export type TerminalWriteLogFormat = typeof TERMINAL_WRITE_LOG_FORMATS[number]
+
+	export interface LatexGuards {
+		readonly identifiers: boolean
+		readonly prompts: boolean
+		readonly mathTokens: boolean
+		readonly allow: readonly string[]
+		readonly deny: readonly string[]
+	}
+	export function fixLatexGuards(self0: unknown): Fixed<LatexGuards> {
+		const unc = launderUnchecked<LatexGuards>(self0)
+		return markFixed(self0, {
+			allow: fixArray(DEFAULT.latexGuards, unc, "allow", ["string"]),
+			deny: fixArray(DEFAULT.latexGuards, unc, "deny", ["string"]),
+			identifiers: fixTyped(
+				DEFAULT.latexGuards,
+				unc,
+				"identifiers",
+				["boolean"],
+			),
+			mathTokens: fixTyped(
+				DEFAULT.latexGuards,
+				unc,
+				"mathTokens",
+				["boolean"],
+			),
+			prompts: fixTyped(
+				DEFAULT.latexGuards,
+				unc,
+				"prompts",
+				["boolean"],
+			),
+		})
+	}
+
 	// Renderer options removed - DOM-only now
 
 	export type Profile =
@@ -227,6 +283,7 @@ export namespace Settings {
 		interface Base {
 			readonly type: Type
 			readonly name: string
+			readonly latex: Latex
 			readonly restoreHistory: boolean
 			readonly rightClickAction: RightClickActionAddon.Action
 			readonly successExitCodes: readonly string[]
@@ -263,6 +320,7 @@ export namespace Settings {
 			// eslint-disable-next-line @typescript-eslint/naming-convention
 			"": PROFILE_PRESETS.empty,
 			developerConsole: {
+				latex: DEFAULT_LATEX_OPTIONS,
 				name: "",
 				restoreHistory: false,
 				rightClickAction: "copyPaste",
@@ -273,6 +331,7 @@ export namespace Settings {
 			external: {
 				args: [],
 				executable: "",
+				latex: DEFAULT_LATEX_OPTIONS,
 				name: "",
 				platforms: {
 					darwin: false,
@@ -288,6 +347,7 @@ export namespace Settings {
 			integrated: {
 				args: [],
 				executable: "",
+				latex: DEFAULT_LATEX_OPTIONS,
 				name: "",
 				platforms: {
 					darwin: false,
@@ -333,6 +393,7 @@ export namespace Settings {
 				switch (type) {
 					case "": {
 						return {
+							latex: fixLatex(unc["latex"]).value,
 							name: fixTyped(
 								DEFAULTS[type],
 								unc,
@@ -363,6 +424,7 @@ export namespace Settings {
 					}
 					case "developerConsole": {
 						return {
+							latex: fixLatex(unc["latex"]).value,
 							name: fixTyped(
 								DEFAULTS[type],
 								unc,
@@ -405,6 +467,7 @@ export namespace Settings {
 								"executable",
 								["string"],
 							),
+							latex: fixLatex(unc["latex"]).value,
 							name: fixTyped(
 								DEFAULTS[type],
 								unc,
@@ -452,6 +515,7 @@ export namespace Settings {
 								"executable",
 								["string"],
 							),
+							latex: fixLatex(unc["latex"]).value,
 							name: fixTyped(
 								DEFAULTS[type],
 								unc,
@@ -508,6 +572,127 @@ export namespace Settings {
 			})())
 		}
 
+		export interface Latex {
+			readonly alternateScreen: Latex.AlternateScreen
+			readonly enabled: boolean
+			readonly engine: Latex.Engine
+			readonly inline: boolean
+			readonly display: boolean
+			readonly delimiters: readonly Latex.Delimiter[]
+			readonly extensions: readonly Latex.Extension[]
+			readonly heuristics: boolean
+			readonly markdown: boolean
+			readonly mode: Latex.Mode
+			readonly fontScale: number
+			readonly debugLogging: boolean
+		}
+		export namespace Latex {
+			export const ALTERNATE_SCREEN_POLICIES =
+				deepFreeze(["render", "never", "pager"])
+			export type AlternateScreen = typeof ALTERNATE_SCREEN_POLICIES[number]
+			export const ENGINES = deepFreeze(["katex", "mathjax"])
+			export type Engine = typeof ENGINES[number]
+			export const EXTENSIONS = deepFreeze(["mhchem", "units"])
+			export type Extension = typeof EXTENSIONS[number]
+			export const MODES = deepFreeze(["overlay", "unicode"])
+			export type Mode = typeof MODES[number]
+			export interface Delimiter {
+				readonly left: string
+				readonly right: string
+				readonly display: boolean
+			}
+		}
+		export function fixLatexDelimiters(
+			self0: unknown,
+		): Fixed<readonly Latex.Delimiter[]> {
+			if (!Array.isArray(self0)) {
+				return markFixed(self0, DEFAULT_LATEX_OPTIONS.delimiters)
+			}
+			return markFixed(self0, self0.flatMap((delimiter: unknown) => {
+				const unc = launderUnchecked<Latex.Delimiter>(delimiter),
+					{ display, left, right } = unc
+				if (typeof left !== "string" || !left ||
+					typeof right !== "string" || !right) { return [] }
+				return [{
+					display: typeof display === "boolean" && display,
+					left,
+					right,
+				}]
+			}))
+		}
+		export function fixLatex(self0: unknown): Fixed<Latex> {
+			const unc = launderUnchecked<Latex>(self0),
+				fontScale = fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"fontScale",
+					["number"],
+				)
+			return markFixed(self0, {
+				alternateScreen: fixInSet(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"alternateScreen",
+					Latex.ALTERNATE_SCREEN_POLICIES,
+				),
+				debugLogging: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"debugLogging",
+					["boolean"],
+				),
+				delimiters: fixLatexDelimiters(unc.delimiters).value,
+				display: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"display",
+					["boolean"],
+				),
+				enabled: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"enabled",
+					["boolean"],
+				),
+				engine: fixInSet(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"engine",
+					Latex.ENGINES,
+				),
+				extensions: Latex.EXTENSIONS.filter(extension =>
+					fixArray(DEFAULT_LATEX_OPTIONS, unc, "extensions", ["string"])
+						.includes(extension)),
+				fontScale: isFinite(fontScale) && fontScale > 0
+					? fontScale
+					: DEFAULT_LATEX_OPTIONS.fontScale,
+				heuristics: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"heuristics",
+					["boolean"],
+				),
+				inline: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"inline",
+					["boolean"],
+				),
+				markdown: fixTyped(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"markdown",
+					["boolean"],
+				),
+				mode: fixInSet(
+					DEFAULT_LATEX_OPTIONS,
+					unc,
+					"mode",
+					Latex.MODES,
+				),
+			})
+		}
+
 		export type TerminalOptions = Omit<DeepReadonly<ITerminalOptions
 		>, "documentOverride"> & { readonly documentOverride: null }
 		export namespace TerminalOptions {
@@ -1217,6 +1402,12 @@ export namespace Settings {
 				"hideStatusBar",
 				HIDE_STATUS_BAR_OPTIONS,
 			),
+			htmlExportMath: fixInSet(
+				DEFAULT,
+				unc,
+				"htmlExportMath",
+				HTML_EXPORT_MATH_OPTIONS,
+			),
 			interceptLogging: fixTyped(
 				DEFAULT,
 				unc,
@@ -1229,6 +1420,13 @@ export namespace Settings {
 				"language",
 				DEFAULTABLE_LANGUAGES,
 			),
+			latexGuards: fixLatexGuards(unc.latexGuards).value,
+			latexPreamble: fixTyped(
+				DEFAULT,
+				unc,
+				"latexPreamble",
+				["string"],
+			),
 			newInstanceBehavior: fixInSet(
 				DEFAULT,
 				unc,
@@ -1263,6 +1461,12 @@ export namespace Settings {
 				}
 				return cloneAsWritable(defaults2)
 			})(),
+			terminalWriteLogFormat: fixInSet(
+				DEFAULT,
+				unc,
+				"terminalWriteLogFormat",
+				TERMINAL_WRITE_LOG_FORMATS,
+			),
 			theme: fixTyped(
 				DEFAULT,
 				unc,
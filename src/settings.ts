@@ -1,5 +1,6 @@
 import {
 	AdvancedSettingTab,
+	ListModal,
 	cloneAsWritable,
 	closeSetting,
 	createChildElement,
@@ -9,13 +10,15 @@ import {
 	resetButton,
 	setTextToEnum,
 } from "@polyipseity/obsidian-plugin-library"
+import { explainLatex, latexGuard } from "./terminal/latex.js"
+import { identity, size } from "lodash-es"
+import { DEFAULT_LATEX_OPTIONS } from "./terminal/profile-presets.js"
 import { Notice } from "obsidian"
 import { ProfileListModal } from "./modals.js"
 import { Settings } from "./settings-data.js"
 import type { TerminalPlugin } from "./main.js"
 import type { loadDocumentations } from "./documentations.js"
 import semverLt from "semver/functions/lt.js"
-import { size } from "lodash-es"
 
 export class SettingTab extends AdvancedSettingTab<Settings> {
 	public constructor(
@@ -291,6 +294,220 @@ export class SettingTab extends AdvancedSettingTab<Settings> {
 					))
 			})
 		this.newNoticeTimeoutWidget(Settings.DEFAULT)
+		this.newSectionWidget(() => i18n.t("settings.LaTeX"))
+		let guardSample = ""
+		ui
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.HTML-export-math"))
+					.setDesc(i18n.t("settings.HTML-export-math-description"))
+					.addDropdown(linkSetting(
+						(): string => settings.value.htmlExportMath,
+						setTextToEnum(
+							Settings.HTML_EXPORT_MATH_OPTIONS,
+							async value => settings.mutate(settingsM => {
+								settingsM.htmlExportMath = value
+							}),
+						),
+						() => { this.postMutate() },
+						{
+							pre: dropdown => {
+								dropdown
+									.addOptions(Object
+										.fromEntries(Settings.HTML_EXPORT_MATH_OPTIONS
+											.map(value => [
+												value,
+												i18n.t(`settings.HTML-export-math-options.${value}`),
+											])))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.HTML-export-math-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.htmlExportMath = Settings.DEFAULT.htmlExportMath
+						}),
+						() => { this.postMutate() },
+					))
+			})
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.LaTeX-preamble"))
+					.setDesc(i18n.t("settings.LaTeX-preamble-description"))
+					.addText(linkSetting(
+						() => settings.value.latexPreamble,
+						async value => settings.mutate(settingsM => {
+							settingsM.latexPreamble = value
+						}),
+						() => { this.postMutate() },
+						{
+							post: component => {
+								component.setPlaceholder(i18n
+									.t("settings.LaTeX-preamble-placeholder"))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.LaTeX-preamble-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.latexPreamble = Settings.DEFAULT.latexPreamble
+						}),
+						() => { this.postMutate() },
+					))
+			})
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.LaTeX-guards.prompts"))
+					.setDesc(i18n.t("settings.LaTeX-guards.prompts-description"))
+					.addToggle(linkSetting(
+						() => settings.value.latexGuards.prompts,
+						async value => settings.mutate(settingsM => {
+							settingsM.latexGuards.prompts = value
+						}),
+						() => { this.postMutate() },
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.LaTeX-guards.prompts-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.latexGuards.prompts =
+								Settings.DEFAULT.latexGuards.prompts
+						}),
+						() => { this.postMutate() },
+					))
+			})
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.LaTeX-guards.identifiers"))
+					.setDesc(i18n.t("settings.LaTeX-guards.identifiers-description"))
+					.addToggle(linkSetting(
+						() => settings.value.latexGuards.identifiers,
+						async value => settings.mutate(settingsM => {
+							settingsM.latexGuards.identifiers = value
+						}),
+						() => { this.postMutate() },
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.LaTeX-guards.identifiers-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.latexGuards.identifiers =
+								Settings.DEFAULT.latexGuards.identifiers
+						}),
+						() => { this.postMutate() },
+					))
+			})
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.LaTeX-guards.math-tokens"))
+					.setDesc(i18n.t("settings.LaTeX-guards.math-tokens-description"))
+					.addToggle(linkSetting(
+						() => settings.value.latexGuards.mathTokens,
+						async value => settings.mutate(settingsM => {
+							settingsM.latexGuards.mathTokens = value
+						}),
+						() => { this.postMutate() },
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.LaTeX-guards.math-tokens-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.latexGuards.mathTokens =
+								Settings.DEFAULT.latexGuards.mathTokens
+						}),
+						() => { this.postMutate() },
+					))
+			})
+		for (const key of ["allow", "deny"] as const) {
+			ui.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t(`settings.LaTeX-guards.${key}`))
+					.setDesc(i18n.t(`settings.LaTeX-guards.${key}-description`, {
+						count: settings.value.latexGuards[key].length,
+						interpolation: { escapeValue: false },
+					}))
+					.addButton(button => button
+						.setIcon(i18n.t(`asset:settings.LaTeX-guards.${key}-edit-icon`))
+						.setTooltip(i18n.t(`settings.LaTeX-guards.${key}-edit`))
+						.onClick(() => {
+							new ListModal(
+								context,
+								ListModal.stringInputter<string>({
+									back: identity,
+									forth: identity,
+								}),
+								() => "",
+								settings.value.latexGuards[key],
+								{
+									callback: async (value): Promise<void> => {
+										await settings.mutate(settingsM => {
+											settingsM.latexGuards[key] = value
+										})
+										this.postMutate()
+									},
+									dynamicWidth: true,
+									title: (): string =>
+										i18n.t(`settings.LaTeX-guards.${key}`),
+								},
+							).open()
+						}))
+					.addExtraButton(resetButton(
+						i18n.t(`asset:settings.LaTeX-guards.${key}-icon`),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.latexGuards[key] =
+								cloneAsWritable(Settings.DEFAULT.latexGuards[key])
+						}),
+						() => { this.postMutate() },
+					))
+			})
+		}
+		ui.newSetting(containerEl, setting => {
+			const { settingEl } = setting,
+				guard = latexGuard(settings.value.latexGuards),
+				sample = guardSample,
+				results =
+					explainLatex(sample, DEFAULT_LATEX_OPTIONS.delimiters, guard)
+			setting
+				.setName(i18n.t("settings.LaTeX-guards.test"))
+				.setDesc(createDocumentFragment(settingEl.ownerDocument, frag => {
+					createChildElement(frag, "div", ele => {
+						ele.textContent = i18n.t("settings.LaTeX-guards.test-description")
+					})
+					for (const pattern of guard.invalid) {
+						createChildElement(frag, "div", ele => {
+							ele.textContent = i18n.t("settings.LaTeX-guards.test-invalid", {
+								interpolation: { escapeValue: false },
+								pattern,
+							})
+						})
+					}
+					for (const { match: { end, start }, rule } of results) {
+						createChildElement(frag, "div", ele => {
+							ele.textContent = i18n.t(
+								`settings.LaTeX-guards.test-results.${rule ?? "accepted"}`,
+								{
+									interpolation: { escapeValue: false },
+									math: sample.slice(start, end),
+								},
+							)
+						})
+					}
+				}))
+				.addTextArea(linkSetting(
+					() => guardSample,
+					value => { guardSample = value },
+					() => { this.postMutate() },
+					{
+						post: component => {
+							component.setPlaceholder(i18n
+								.t("settings.LaTeX-guards.test-placeholder"))
+						},
+					},
+				))
+		})
 		this.newSectionWidget(() => i18n.t("settings.advanced"))
 		ui
 			.newSetting(containerEl, setting => {
@@ -361,6 +578,41 @@ export class SettingTab extends AdvancedSettingTab<Settings> {
 						() => { this.postMutate() },
 					))
 			})
+			.newSetting(containerEl, setting => {
+				setting
+					.setName(i18n.t("settings.write-log-format"))
+					.setDesc(i18n.t("settings.write-log-format-description"))
+					.addDropdown(linkSetting(
+						(): string => settings.value.terminalWriteLogFormat,
+						setTextToEnum(
+							Settings.TERMINAL_WRITE_LOG_FORMATS,
+							async value => settings.mutate(settingsM => {
+								settingsM.terminalWriteLogFormat = value
+							}),
+						),
+						() => { this.postMutate() },
+						{
+							pre: dropdown => {
+								dropdown
+									.addOptions(Object
+										.fromEntries(Settings.TERMINAL_WRITE_LOG_FORMATS
+											.map(value => [
+												value,
+												i18n.t(`settings.write-log-format-options.${value}`),
+											])))
+							},
+						},
+					))
+					.addExtraButton(resetButton(
+						i18n.t("asset:settings.write-log-format-icon"),
+						i18n.t("settings.reset"),
+						async () => settings.mutate(settingsM => {
+							settingsM.terminalWriteLogFormat =
+								Settings.DEFAULT.terminalWriteLogFormat
+						}),
+						() => { this.postMutate() },
+					))
+			})
 		this.newSectionWidget(() => "Theme")
 		ui
 			.newSetting(containerEl, setting => {
@@ -3,12 +3,69 @@ import {
 	activeSelf,
 	consumeEvent,
 	deepFreeze,
+	inSet,
 	isNonNil,
 	replaceAllRegex,
 } from "@polyipseity/obsidian-plugin-library"
 import type { ITerminalAddon, Terminal } from "@xterm/xterm"
+import { PAGER_PROGRAMS } from "../magic.js"
+import type { Settings } from "../settings-data.js"
 import { constant } from "lodash-es"
 
+const TITLE_HOST_PREFIX_REGEX = /^\S*@\S*:\s*/u
+
+export class AlternateScreenAddon implements ITerminalAddon {
+	static readonly #instances = new WeakMap<Terminal, AlternateScreenAddon>()
+	readonly #disposer = new Functions({ async: false, settled: true })
+	#terminal: Terminal | null = null
+	#title = ""
+
+	public get alternate(): boolean {
+		return this.#terminal?.buffer.active.type === "alternate"
+	}
+
+	public get pager(): boolean {
+		// Shells commonly set the title to the running command, e.g. `less file`
+		const [command = ""] = this.#title
+			.replace(TITLE_HOST_PREFIX_REGEX, "")
+			.trim()
+			.split(/\s/u)
+		return inSet(PAGER_PROGRAMS, command.slice(command.lastIndexOf("/") + 1))
+	}
+
+	public static get(terminal: Terminal): AlternateScreenAddon | null {
+		return AlternateScreenAddon.#instances.get(terminal) ?? null
+	}
+
+	public activate(terminal: Terminal): void {
+		this.#terminal = terminal
+		AlternateScreenAddon.#instances.set(terminal, this)
+		const title = terminal.onTitleChange(title0 => { this.#title = title0 })
+		this.#disposer.push(
+			() => { AlternateScreenAddon.#instances.delete(terminal) },
+			() => { title.dispose() },
+		)
+	}
+
+	public dispose(): void {
+		this.#disposer.call()
+	}
+
+	// eslint-disable-next-line @typescript-eslint/consistent-return
+	public renders(policy: Settings.Profile.Latex.AlternateScreen): boolean {
+		if (!this.alternate) { return true }
+		switch (policy) {
+			case "render":
+				return true
+			case "never":
+				return false
+			case "pager":
+				return this.pager
+			// No default
+		}
+	}
+}
+
 export class DisposerAddon extends Functions implements ITerminalAddon {
 	public constructor(...args: readonly (() => void)[]) {
 		super({ async: false, settled: true }, ...args)
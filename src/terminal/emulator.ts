@@ -24,6 +24,7 @@ import { noop, throttle } from "lodash-es"
 import type { AsyncOrSync } from "ts-essentials"
 import { BUNDLE } from "../import.js"
 import type { ChildProcessByStdio } from "node:child_process"
+import { MathSpanAddon } from "./math-spans.js"
 import type { Pseudoterminal } from "./pseudoterminal.js"
 import { spawnPromise } from "../util.js"
 import { writePromise } from "./util.js"
@@ -86,13 +87,15 @@ export class XtermTerminalEmulator<A> {
 		_reject: (reason?: unknown) => void,
 		columns: number,
 		rows: number,
+		width: number,
+		height: number,
 		mustResizePseudoterminal: boolean,
 	) => {
 		resolve((async (): Promise<void> => {
 			try {
 				const pty = await this.pseudoterminal
 				if (pty.resize) {
-					await pty.resize(columns, rows)
+					await pty.resize(columns, rows, width, height)
 				}
 			} catch (error) {
 				if (mustResizePseudoterminal) { throw error }
@@ -128,7 +131,11 @@ export class XtermTerminalEmulator<A> {
 		let write = Promise.resolve()
 		if (state) {
 			terminal.resize(state.columns, state.rows)
-			write = writePromise(terminal, state.data)
+			const { data, math } = state
+			write = writePromise(terminal, data).then(() => {
+				// Overlays are recreated as restored data is not piped
+				MathSpanAddon.get(terminal)?.restore(math)
+			})
 		}
 		this.pseudoterminal = write.then(async () => {
 			const pty0 = await pseudoterminal(terminal, addons0)
@@ -178,9 +185,14 @@ export class XtermTerminalEmulator<A> {
 			}
 			
 			if (isFinite(cols) && isFinite(rows)) {
+				// Lets programs size inline images, the cell size is unaffected
+				const screen = terminal.element?.querySelector(".xterm-screen")
+						?.getBoundingClientRect(),
+					width = screen ? Math.round(screen.width / terminal.cols * cols) : 0,
+					height = screen ? Math.round(screen.height / terminal.rows * rows) : 0
 				await Promise.all([
 					resizeEmulator(cols, rows),
-					resizePTY(cols, rows, mustResizePseudoterminal),
+					resizePTY(cols, rows, width, height, mustResizePseudoterminal),
 				])
 			}
 		}
@@ -199,6 +211,7 @@ export class XtermTerminalEmulator<A> {
 				excludeAltBuffer: true,
 				excludeModes: true,
 			}),
+			math: MathSpanAddon.get(this.terminal)?.serialize() ?? [],
 			rows: this.terminal.rows,
 		})
 	}
@@ -208,11 +221,13 @@ export namespace XtermTerminalEmulator {
 		readonly columns: number
 		readonly rows: number
 		readonly data: string
+		readonly math: readonly MathSpanAddon.Serial[]
 	}
 	export namespace State {
 		export const DEFAULT: State = deepFreeze({
 			columns: 1,
 			data: "",
+			math: [],
 			rows: 1,
 		})
 		export function fix(self0: unknown): Fixed<State> {
@@ -220,6 +235,7 @@ export namespace XtermTerminalEmulator {
 			return markFixed(self0, {
 				columns: fixTyped(DEFAULT, unc, "columns", ["number"]),
 				data: fixTyped(DEFAULT, unc, "data", ["string"]),
+				math: MathSpanAddon.fixSerial(unc.math).value,
 				rows: fixTyped(DEFAULT, unc, "rows", ["number"]),
 			})
 		}
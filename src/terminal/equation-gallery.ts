@@ -0,0 +1,306 @@
+import { DOMClasses2, MAX_EQUATION_HISTORY } from "../magic.js"
+import {
+	ExtraButtonComponent,
+	ItemView,
+	MarkdownView,
+	type WorkspaceLeaf,
+	normalizePath,
+} from "obsidian"
+import {
+	UnnamespacedID,
+	activeSelf,
+	anyToError,
+	createChildElement,
+	notice2,
+	printError,
+	updateView,
+} from "@polyipseity/obsidian-plugin-library"
+import type { MathSpanAddon } from "./math-spans.js"
+import type { TerminalPlugin } from "../main.js"
+import type { TerminalView } from "./view.js"
+
+const FILENAME_ILLEGAL_REGEX = /[\\/:*?"<>|#^[\]]/gu
+
+export class EquationGalleryView extends ItemView {
+	public static readonly type =
+		new UnnamespacedID(DOMClasses2.Namespaced.EQUATION_GALLERY)
+
+	static #namespacedType: string
+	readonly #className
+	#terminal: TerminalView | null = null
+	#mathSpans: MathSpanAddon | null = null
+	#unlink: (() => void) | null = null
+	#detach: (() => void) | null = null
+
+	public constructor(
+		protected readonly context: TerminalPlugin,
+		leaf: WorkspaceLeaf,
+	) {
+		super(leaf)
+		this.#className = EquationGalleryView.type.namespaced(context)
+	}
+
+	public get terminal(): TerminalView | null {
+		return this.#terminal
+	}
+
+	public static load(context: TerminalPlugin): void {
+		this.#namespacedType = this.type.namespaced(context)
+		context.registerView(
+			EquationGalleryView.type.namespaced(context),
+			leaf => new EquationGalleryView(context, leaf),
+		)
+	}
+
+	public getDisplayText(): string {
+		const { context: { language: { value: i18n } } } = this,
+			terminal = this.#terminal
+		return terminal
+			? i18n.t(`components.${EquationGalleryView.type.id}.display-name`, {
+				interpolation: { escapeValue: false },
+				name: terminal.getDisplayText(),
+			})
+			: i18n.t("components.equation-gallery.display-name-unlinked")
+	}
+
+	public override getIcon(): string {
+		return this.context.language
+			.value.t(`asset:components.${EquationGalleryView.type.id}.icon`)
+	}
+
+	// eslint-disable-next-line @typescript-eslint/class-methods-use-this
+	public getViewType(): string {
+		return EquationGalleryView.#namespacedType
+	}
+
+	public link(terminal: TerminalView | null): void {
+		this.#unlink?.()
+		this.#terminal = terminal
+		// Restarting the terminal replaces its equations
+		this.#unlink = terminal?.onMathSpans.listen(mathSpans => {
+			// The terminal is closed
+			if (mathSpans) { this.attach(mathSpans) } else { this.link(null) }
+		}) ?? null
+		this.attach(terminal?.mathSpans ?? null)
+	}
+
+	protected override async onOpen(): Promise<void> {
+		await super.onOpen()
+		const { context, context: { language } } = this,
+			{ value: i18n } = language
+		this.contentEl.classList.add(this.#className)
+		this.addAction(
+			i18n.t("asset:components.equation-gallery.collect-icon"),
+			i18n.t("components.equation-gallery.collect"),
+			() => {
+				this.collect().catch((error: unknown) => {
+					printError(anyToError(error), () =>
+						i18n.t("errors.error-collecting-equations"), context)
+				})
+			},
+		)
+		this.register(language.onChangeLanguage.listen(() => {
+			this.attach(this.#mathSpans)
+		}))
+		this.register(() => {
+			this.#unlink?.()
+			this.#detach?.()
+		})
+		this.attach(null)
+	}
+
+	protected attach(mathSpans: MathSpanAddon | null): void {
+		this.#detach?.()
+		this.#mathSpans = mathSpans
+		this.#detach = mathSpans?.onEquation
+			.listen(equation => { this.addEntry(equation) }) ?? null
+		const { context: { language: { value: i18n } }, contentEl } = this,
+			className = this.#className,
+			equations = mathSpans?.equations ?? []
+		contentEl.replaceChildren()
+		createChildElement(contentEl, "div", ele => {
+			ele.classList.add(`${className}-empty`)
+			ele.textContent = i18n.t(this.#terminal
+				? "components.equation-gallery.empty"
+				: "components.equation-gallery.unlinked")
+		})
+		for (const equation of equations) { this.addEntry(equation) }
+		updateView(this.context, this)
+	}
+
+	protected addEntry(equation: MathSpanAddon.Equation): void {
+		const mathSpans = this.#mathSpans
+		if (!mathSpans) { return }
+		const { context, context: { language: { value: i18n } }, contentEl } = this,
+			className = this.#className,
+			{ source, time } = equation,
+			action = (
+				name: string,
+				icon: string,
+				callback: () => Promise<void> | void,
+			) => (button: ExtraButtonComponent): void => {
+				button
+					.setIcon(icon)
+					.setTooltip(name)
+					.onClick(() => {
+						(async (): Promise<void> => {
+							await callback()
+						})().catch((error: unknown) => {
+							printError(
+								anyToError(error),
+								() => i18n.t("errors.error-using-equation", {
+									action: name,
+									interpolation: { escapeValue: false },
+								}),
+								context,
+							)
+						})
+					})
+			}
+		createChildElement(contentEl, "div", ele => {
+			ele.classList.add(`${className}-entry`)
+			ele.title = source
+			ele.addEventListener("click", () => { this.reveal(equation) })
+			createChildElement(ele, "div", header => {
+				header.classList.add(`${className}-header`)
+				createChildElement(header, "span", ele0 => {
+					ele0.classList.add(`${className}-time`)
+					ele0.textContent = i18n.t("components.equation-gallery.time", {
+						interpolation: { escapeValue: false },
+						time: new Date(time),
+					})
+				})
+				createChildElement(header, "div", actions => {
+					actions.classList.add(`${className}-actions`)
+					// Not revealing the equation when clicking the buttons
+					actions.addEventListener("click", event => {
+						event.stopPropagation()
+					})
+					action(
+						i18n.t("components.equation-gallery.copy-source"),
+						i18n.t("asset:components.equation-gallery.copy-source-icon"),
+						async () => {
+							await activeSelf(actions).navigator.clipboard.writeText(source)
+						},
+					)(new ExtraButtonComponent(actions))
+					action(
+						i18n.t("components.equation-gallery.insert"),
+						i18n.t("asset:components.equation-gallery.insert-icon"),
+						() => { this.insert(equation) },
+					)(new ExtraButtonComponent(actions))
+				})
+			})
+			createChildElement(ele, "div", math => {
+				math.classList.add(`${className}-math`)
+				mathSpans.renderEquation(math, equation)
+			})
+		})
+		const entries = contentEl.getElementsByClassName(`${className}-entry`)
+		for (let idx = entries.length; idx > MAX_EQUATION_HISTORY; --idx) {
+			entries[0]?.remove()
+		}
+	}
+
+	protected reveal(equation: MathSpanAddon.Equation): void {
+		const
+			{
+				app: { workspace },
+				context,
+				context: { language, settings },
+			} = this,
+			terminal = this.#terminal
+		if (!terminal) { return }
+		// Scrolled out of the scrollback or cleared
+		if (!(this.#mathSpans?.reveal(equation) ?? false)) {
+			notice2(
+				() => language.value.t("notices.equation-not-in-terminal"),
+				settings.value.noticeTimeout,
+				context,
+			)
+			return
+		}
+		workspace.revealLeaf(terminal.leaf)
+	}
+
+	protected insert(equation: MathSpanAddon.Equation): void {
+		const
+			{
+				app: { workspace },
+				context,
+				context: { language, settings },
+			} = this,
+			recent = workspace.getMostRecentLeaf()?.view,
+			// The gallery itself is focused after clicking on it
+			editor = workspace.activeEditor?.editor ??
+				(recent instanceof MarkdownView ? recent.editor : null)
+		if (!editor) {
+			notice2(
+				() => language.value.t("notices.no-editor-to-insert-equation"),
+				settings.value.errorNoticeTimeout,
+				context,
+			)
+			return
+		}
+		editor.replaceSelection(EquationGalleryView.toMarkdown(equation))
+	}
+
+	protected async collect(): Promise<void> {
+		const
+			{
+				app: { fileManager, vault, workspace },
+				context,
+				context: { language: { value: i18n }, settings },
+			} = this,
+			equations = this.#mathSpans?.equations ?? []
+		if (equations.length <= 0) {
+			notice2(
+				() => i18n.t("notices.no-equations-to-collect"),
+				settings.value.errorNoticeTimeout,
+				context,
+			)
+			return
+		}
+		const { path } = fileManager.getNewFileParent(""),
+			stem = i18n.t("components.equation-gallery.note-name", {
+				interpolation: { escapeValue: false },
+				name: this.#terminal?.getDisplayText() ?? "",
+			}).replace(FILENAME_ILLEGAL_REGEX, "")
+		let filepath = normalizePath(`${path}/${stem}.md`)
+		for (let idx = 1; vault.getAbstractFileByPath(filepath); ++idx) {
+			filepath = normalizePath(`${path}/${stem} ${idx}.md`)
+		}
+		const file = await vault.create(filepath, equations
+			.map(equation => [
+				i18n.t("components.equation-gallery.time", {
+					interpolation: { escapeValue: false },
+					time: new Date(equation.time),
+				}),
+				EquationGalleryView.toMarkdown(equation),
+			].join("\n"))
+			.join("\n\n"))
+		await workspace.getLeaf("tab").openFile(file)
+	}
+}
+export namespace EquationGalleryView {
+	export function toMarkdown(equation: MathSpanAddon.Equation): string {
+		return `$$\n${equation.source.trim()}\n$$`
+	}
+	export async function open(
+		context: TerminalPlugin,
+		terminal: TerminalView,
+	): Promise<void> {
+		const { app: { workspace } } = context,
+			leaf = workspace
+				.getLeavesOfType(EquationGalleryView.type.namespaced(context))
+				.find(({ view }) =>
+					view instanceof EquationGalleryView && view.terminal === terminal) ??
+				workspace.getRightLeaf(false)
+		await leaf.setViewState({
+			active: true,
+			type: EquationGalleryView.type.namespaced(context),
+		})
+		const { view } = leaf
+		if (view instanceof EquationGalleryView) { view.link(terminal) }
+		workspace.revealLeaf(leaf)
+	}
+}
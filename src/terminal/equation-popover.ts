@@ -0,0 +1,295 @@
+import { DOMClasses2, EQUATION_PNG_SCALE } from "../magic.js"
+import {
+	ExtraButtonComponent,
+	type FileManager,
+	type HoverParent,
+	HoverPopover,
+	loadMathJax,
+	normalizePath,
+} from "obsidian"
+import {
+	Functions,
+	UnnamespacedID,
+	activeSelf,
+	anyToError,
+	createChildElement,
+	dynamicRequire,
+	notice2,
+	printError,
+} from "@polyipseity/obsidian-plugin-library"
+import type { ITerminalAddon, Terminal } from "@xterm/xterm"
+import { BUNDLE } from "../import.js"
+import { MathSpanAddon } from "./math-spans.js"
+import type { TerminalPlugin } from "../main.js"
+
+const
+	katex =
+		dynamicRequire<typeof import("katex")>(
+			BUNDLE, "katex"),
+	MATHML_REGEX = /<math[\s\S]*<\/math>/u,
+	SVG_NAMESPACE = "http://www.w3.org/2000/svg"
+
+async function availablePath(
+	context: TerminalPlugin,
+	filename: string,
+): Promise<string> {
+	const { app: { fileManager, vault } } = context,
+		// Public since Obsidian 1.5, so fall back to the folder for new files
+		fileManager0: FileManager & {
+			readonly getAvailablePathForAttachment?: (
+				filename: string,
+				sourcePath?: string,
+			) => Promise<string>
+		} = fileManager
+	if (fileManager0.getAvailablePathForAttachment) {
+		return fileManager0.getAvailablePathForAttachment(filename, "")
+	}
+	const { path } = fileManager.getNewFileParent(""),
+		dot = filename.lastIndexOf("."),
+		[stem, extension] = [filename.slice(0, dot), filename.slice(dot)]
+	let ret = normalizePath(`${path}/${filename}`)
+	for (let idx = 1; vault.getAbstractFileByPath(ret); ++idx) {
+		ret = normalizePath(`${path}/${stem} ${idx}${extension}`)
+	}
+	return ret
+}
+
+export class EquationPopoverAddon implements ITerminalAddon {
+	readonly #disposer = new Functions({ async: false, settled: true })
+	readonly #className
+	#anchor: {
+		readonly span: MathSpanAddon.Span
+		readonly element: HTMLElement
+	} | null = null
+
+	public constructor(
+		protected readonly context: TerminalPlugin,
+		protected readonly parent: HoverParent,
+	) {
+		this.#className = new UnnamespacedID(DOMClasses2.Namespaced.EQUATION)
+			.namespaced(context)
+	}
+
+	public activate(terminal: Terminal): void {
+		const { element } = terminal
+		if (!element) { throw new Error() }
+		const mousemove = (event: MouseEvent): void => {
+			this.hover(terminal, event)
+		}
+		this.#disposer.push(
+			() => { element.removeEventListener("mousemove", mousemove) },
+			() => {
+				this.#anchor?.element.remove()
+				this.#anchor = null
+			},
+		)
+		element.addEventListener("mousemove", mousemove, { passive: true })
+	}
+
+	public dispose(): void {
+		this.#disposer.call()
+	}
+
+	protected hover(terminal: Terminal, event: MouseEvent): void {
+		const screen = terminal.element?.querySelector(".xterm-screen"),
+			mathSpans = MathSpanAddon.get(terminal)
+		if (!(screen instanceof HTMLElement) || !mathSpans) { return }
+		const { buffer: { active: { viewportY } }, cols, rows } = terminal,
+			{ height, left, top, width } = screen.getBoundingClientRect(),
+			cellWidth = width / cols,
+			cellHeight = height / rows,
+			span = mathSpans.spanAt(
+				Math.floor((event.clientX - left) / cellWidth),
+				viewportY + Math.floor((event.clientY - top) / cellHeight),
+			)
+		if (!span || span === this.#anchor?.span) { return }
+		this.#anchor?.element.remove()
+		const { column, marker: { line }, text } = span,
+			lines = text.split("\n")
+		// Covers the equation so that Obsidian can track hovering over it
+		createChildElement(screen, "div", ele => {
+			ele.classList.add(`${this.#className}-anchor`)
+			Object.assign(ele.style, {
+				height: `${lines.length * cellHeight}px`,
+				left: `${column * cellWidth}px`,
+				top: `${(line - viewportY) * cellHeight}px`,
+				width: `${Math.max(...lines.map(({ length }) => length)) *
+					cellWidth}px`,
+			})
+			ele.addEventListener("mouseleave", () => {
+				ele.remove()
+				if (this.#anchor?.element === ele) { this.#anchor = null }
+			})
+			ele.addEventListener("click", () => {
+				// Show immediately unless already shown by hovering
+				if (!(this.parent.hoverPopover?.hoverEl.isConnected ?? false)) {
+					this.open(ele, span, mathSpans, 0)
+				}
+			})
+			this.#anchor = { element: ele, span }
+			this.open(ele, span, mathSpans)
+		})
+	}
+
+	protected open(
+		target: HTMLElement,
+		span: MathSpanAddon.Span,
+		mathSpans: MathSpanAddon,
+		waitTime?: number,
+	): void {
+		const { context, context: { language: { value: i18n } } } = this,
+			className = this.#className,
+			{ hoverEl } = new HoverPopover(this.parent, target, waitTime),
+			{ display, source } = span,
+			action = (
+				name: string,
+				icon: string,
+				callback: () => Promise<void>,
+			) => (button: ExtraButtonComponent): void => {
+				button
+					.setIcon(icon)
+					.setTooltip(name)
+					.onClick(() => {
+						callback().catch((error: unknown) => {
+							printError(
+								anyToError(error),
+								() => i18n.t("errors.error-using-equation", {
+									action: name,
+									interpolation: { escapeValue: false },
+								}),
+								context,
+							)
+						})
+					})
+			}
+		hoverEl.classList.add(className)
+		const math = createChildElement(hoverEl, "div", ele => {
+			ele.classList.add(`${className}-math`)
+			// Large, with the engine and extensions of the profile
+			mathSpans.renderEquation(ele, { ...span, display: true })
+		})
+		createChildElement(hoverEl, "pre", ele => {
+			ele.classList.add(`${className}-source`)
+			ele.textContent = source
+		})
+		createChildElement(hoverEl, "div", ele => {
+			ele.classList.add(`${className}-actions`)
+			action(
+				i18n.t("components.equation-popover.copy-source"),
+				i18n.t("asset:components.equation-popover.copy-source-icon"),
+				async () => {
+					await activeSelf(ele).navigator.clipboard.writeText(source)
+				},
+			)(new ExtraButtonComponent(ele))
+			action(
+				i18n.t("components.equation-popover.copy-MathML"),
+				i18n.t("asset:components.equation-popover.copy-MathML-icon"),
+				async () => {
+					const html = (await katex).renderToString(source, {
+						displayMode: display,
+						macros: { ...mathSpans.macros },
+						output: "mathml",
+						throwOnError: false,
+					})
+					await activeSelf(ele).navigator.clipboard
+						.writeText(MATHML_REGEX.exec(html)?.[0] ?? html)
+				},
+			)(new ExtraButtonComponent(ele))
+			action(
+				i18n.t("components.equation-popover.save-SVG"),
+				i18n.t("asset:components.equation-popover.save-SVG-icon"),
+				async () => {
+					await this.save("svg", new TextEncoder()
+						.encode(await EquationPopoverAddon.toSVG(math, source, display))
+						.buffer)
+				},
+			)(new ExtraButtonComponent(ele))
+			action(
+				i18n.t("components.equation-popover.save-PNG"),
+				i18n.t("asset:components.equation-popover.save-PNG-icon"),
+				async () => {
+					await this.save("png", await EquationPopoverAddon.toPNG(
+						math,
+						await EquationPopoverAddon.toSVG(math, source, display),
+					))
+				},
+			)(new ExtraButtonComponent(ele))
+		})
+	}
+
+	protected async save(extension: string, data: ArrayBuffer): Promise<void> {
+		const { context, context: { app: { vault }, language, settings } } = this,
+			path = await availablePath(
+				context,
+				`Equation ${Date.now()}.${extension}`,
+			),
+			file = await vault.createBinary(path, data)
+		notice2(
+			() => language.value.t("notices.saved-equation", {
+				interpolation: { escapeValue: false },
+				path: file.path,
+			}),
+			settings.value.noticeTimeout,
+			context,
+		)
+	}
+}
+export namespace EquationPopoverAddon {
+	// Glyphs are paths in MathJax SVG, so no fonts or styles need embedding
+	export async function toSVG(
+		element: HTMLElement,
+		source: string,
+		display: boolean,
+	): Promise<string> {
+		await loadMathJax()
+		const self0 = activeSelf(element),
+			{ document } = self0,
+			svg = self0.MathJax?.tex2svg?.(source, { display }).querySelector("svg")
+		if (!svg) { throw new Error("MathJax SVG output is not loaded") }
+		// Inline glyphs referenced from a global font cache, if any
+		const defs = document.createElementNS(SVG_NAMESPACE, "defs")
+		for (const use of Array.from(svg.querySelectorAll("use"))) {
+			const href = use.getAttribute("href") ??
+				use.getAttribute("xlink:href") ?? "",
+				id = href.slice("#".length)
+			if (!href.startsWith("#") || svg.querySelector(`[id="${id}"]`)) {
+				continue
+			}
+			const glyph = document.getElementById(id)
+			if (glyph) { defs.append(glyph.cloneNode(true)) }
+		}
+		if (defs.hasChildNodes()) { svg.prepend(defs) }
+		svg.style.setProperty(
+			"color",
+			self0.getComputedStyle(element).color,
+		)
+		return new XMLSerializer().serializeToString(svg)
+	}
+
+	export async function toPNG(
+		element: HTMLElement,
+		svg: string,
+	): Promise<ArrayBuffer> {
+		const self0 = activeSelf(element),
+			image = new self0.Image()
+		image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+		await image.decode()
+		const canvas = self0.document.createElement("canvas"),
+			context = canvas.getContext("2d")
+		if (!context) { throw new Error() }
+		// Sized in `ex` by MathJax, resolved by the image itself
+		canvas.width = Math.ceil(image.naturalWidth * EQUATION_PNG_SCALE)
+		canvas.height = Math.ceil(image.naturalHeight * EQUATION_PNG_SCALE)
+		context.scale(EQUATION_PNG_SCALE, EQUATION_PNG_SCALE)
+		context.drawImage(image, 0, 0)
+		return new Promise((resolve, reject) => {
+			canvas.toBlob(blob => {
+				if (blob) {
+					resolve(blob.arrayBuffer())
+					return
+				}
+				reject(new Error())
+			}, "image/png")
+		})
+	}
+}
@@ -0,0 +1,200 @@
+import { Component, finishRenderMath, renderMath } from "obsidian"
+import {
+	LATEX_RENDER_FRAME_BUDGET,
+	MAX_LATEX_RENDER_CACHE,
+} from "../magic.js"
+import {
+	dynamicRequire,
+	launderUnchecked,
+} from "@polyipseity/obsidian-plugin-library"
+import { BUNDLE } from "../import.js"
+import type { LatexPreamble } from "./latex-preamble.js"
+import type { Settings } from "../settings-data.js"
+import type { TerminalPlugin } from "../main.js"
+import { latexMacros } from "./latex-extensions.js"
+
+const
+	katex =
+		dynamicRequire<typeof import("katex")>(
+			BUNDLE, "katex"),
+	TOKEN_REGEX = /^(?:\\[a-zA-Z]+|\\?[\s\S])/u
+
+function renderMathJax(
+	source: string,
+	display: boolean,
+): LatexRenderCache.Result {
+	const element = renderMath(source, display),
+		error = element.querySelector("mjx-merror")
+	// Adds the styles of the rendered math to the document
+	finishRenderMath().catch((error0: unknown) => { self.console.error(error0) })
+	return {
+		// MathJax reports neither the position nor the offending token
+		error: error
+			? {
+				message: error.getAttribute("data-mjx-error") ?? error.textContent,
+				position: null,
+				token: null,
+			}
+			: null,
+		html: element.outerHTML,
+	}
+}
+
+function renderSource(source: string): LatexRenderCache.Result {
+	const element = self.document.createElement("span")
+	element.textContent = source
+	return { error: null, html: element.outerHTML }
+}
+
+export class LatexRenderCache extends Component {
+	readonly #cache = new Map<string, LatexRenderCache.Result>()
+	readonly #queue: (() => void)[] = []
+	#katex: typeof import("katex") | null = null
+	#macros: LatexPreamble.Macros | null = null
+	#frame: number | null = null
+
+	public constructor(protected readonly context: TerminalPlugin) { super() }
+
+	public override onload(): void {
+		super.onload()
+		this.register(() => {
+			if (this.#frame !== null) { self.cancelAnimationFrame(this.#frame) }
+			this.#frame = null
+			this.#queue.length = 0
+			this.#cache.clear()
+		})
+		katex
+			.then(katex0 => {
+				this.#katex = katex0
+				this.requestFrame()
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	public renderToString(
+		source: string,
+		options: LatexRenderCache.Options,
+	): string {
+		return this.render(source, options).html
+	}
+
+	public parseError(
+		source: string,
+		options: LatexRenderCache.Options,
+	): LatexRenderCache.ParseError | null {
+		return this.render(source, options).error
+	}
+
+	public schedule(render: () => void): void {
+		this.#queue.push(render)
+		this.requestFrame()
+	}
+
+	protected render(
+		source: string,
+		options: LatexRenderCache.Options,
+	): LatexRenderCache.Result {
+		const katex0 = this.#katex
+		// Shows the source until KaTeX loads, uncached to be rendered later
+		if (!katex0) { return renderSource(source) }
+		const { macros } = this.context.latexPreamble,
+			{ display, engine, extensions, font, size } = options
+		// The preamble is replaced as a whole whenever it changes
+		if (macros !== this.#macros) {
+			this.#cache.clear()
+			this.#macros = macros
+		}
+		const key =
+				JSON.stringify([source, display, engine, extensions, font, size]),
+			cached = this.#cache.get(key)
+		if (cached !== void 0) {
+			// Move to the back so that the least recently used entry goes first
+			this.#cache.delete(key)
+			this.#cache.set(key, cached)
+			return cached
+		}
+		const katexOptions = {
+				displayMode: display,
+				macros: latexMacros(macros, extensions),
+			},
+			ret = ((): LatexRenderCache.Result => {
+				// Loaded beforehand by `loadLatexEngine`
+				if (engine === "mathjax") { return renderMathJax(source, display) }
+				try {
+					return {
+						error: null,
+						html: katex0.renderToString(source, {
+							...katexOptions,
+							throwOnError: true,
+						}),
+					}
+				} catch (error) {
+					if (!(error instanceof katex0.ParseError)) { throw error }
+					const { position } = launderUnchecked<typeof error>(error),
+						index = typeof position === "number" ? position : null
+					return {
+						error: {
+							message: error.message,
+							position: index,
+							token: index === null
+								? null
+								: TOKEN_REGEX.exec(source.slice(index))?.[0] ?? null,
+						},
+						// Rendered as the source with the error as its hover text
+						html: katex0.renderToString(source, {
+							...katexOptions,
+							throwOnError: false,
+						}),
+					}
+				}
+			})()
+		this.#cache.set(key, ret)
+		for (const old of this.#cache.keys()) {
+			if (this.#cache.size <= MAX_LATEX_RENDER_CACHE) { break }
+			this.#cache.delete(old)
+		}
+		return ret
+	}
+
+	protected requestFrame(): void {
+		if (!this.#katex || this.#frame !== null || this.#queue.length <= 0) {
+			return
+		}
+		this.#frame = self.requestAnimationFrame(() => {
+			this.#frame = null
+			const start = self.performance.now()
+			for (;;) {
+				const render = this.#queue.shift()
+				if (!render) { break }
+				try {
+					render()
+				} catch (error) {
+					self.console.error(error)
+				}
+				if (self.performance.now() - start >= LATEX_RENDER_FRAME_BUDGET) {
+					break
+				}
+			}
+			this.requestFrame()
+		})
+	}
+}
+export namespace LatexRenderCache {
+	export interface Options {
+		readonly display: boolean
+		readonly engine: Settings.Profile.Latex.Engine
+		readonly extensions: readonly Settings.Profile.Latex.Extension[]
+		readonly font: string
+		readonly size: number
+	}
+	export interface ParseError {
+		readonly message: string
+		// Of the offending token in the source, if known
+		readonly position: number | null
+		readonly token: string | null
+	}
+	export interface Result {
+		readonly html: string
+		readonly error: ParseError | null
+	}
+}
@@ -0,0 +1,87 @@
+import {
+	deepFreeze,
+	dynamicRequire,
+} from "@polyipseity/obsidian-plugin-library"
+import { BUNDLE } from "../import.js"
+import type { LatexPreamble } from "./latex-preamble.js"
+import type { Settings } from "../settings-data.js"
+import { loadMathJax } from "obsidian"
+
+const
+	// A subset of `siunitx`, enough for units printed by programs
+	/* eslint-disable @typescript-eslint/naming-convention */
+	UNITS_MACROS = deepFreeze({
+		"\\SI": "#1\\,\\si{#2}",
+		"\\ampere": "A",
+		"\\ang": "#1^\\circ",
+		"\\candela": "cd",
+		"\\centi": "c",
+		"\\coulomb": "C",
+		"\\cubed": "^3",
+		"\\degreeCelsius": "{}^\\circ\\mathrm{C}",
+		"\\electronvolt": "eV",
+		"\\giga": "G",
+		"\\gram": "g",
+		"\\hertz": "Hz",
+		"\\joule": "J",
+		"\\kelvin": "K",
+		"\\kilo": "k",
+		"\\kilogram": "kg",
+		"\\litre": "L",
+		"\\mega": "M",
+		"\\meter": "m",
+		"\\metre": "m",
+		"\\micro": "\\mu",
+		"\\milli": "m",
+		"\\mole": "mol",
+		"\\nano": "n",
+		"\\newton": "N",
+		"\\num": "#1",
+		"\\ohm": "\\Omega",
+		"\\pascal": "Pa",
+		"\\per": "/",
+		"\\qty": "#1\\,\\si{#2}",
+		"\\second": "s",
+		"\\si": "\\mathrm{#1}",
+		"\\squared": "^2",
+		"\\unit": "\\si{#1}",
+		"\\volt": "V",
+		"\\watt": "W",
+	}),
+	/* eslint-enable @typescript-eslint/naming-convention */
+	EXTENSION_MACROS: Readonly<Record<
+		Settings.Profile.Latex.Extension,
+		LatexPreamble.Macros
+	>> = deepFreeze({
+		mhchem: {},
+		units: UNITS_MACROS,
+	})
+
+export function latexMacros(
+	preamble: LatexPreamble.Macros,
+	extensions: readonly Settings.Profile.Latex.Extension[],
+): LatexPreamble.Macros {
+	let ret: Record<string, string> = {}
+	for (const extension of extensions) {
+		ret = { ...ret, ...EXTENSION_MACROS[extension] }
+	}
+	// The preamble goes last so that user definitions take precedence
+	return { ...ret, ...preamble }
+}
+
+export async function loadLatexExtensions(
+	extensions: readonly Settings.Profile.Latex.Extension[],
+): Promise<void> {
+	// `\ce` and `\pu` are registered on the bundled KaTeX once loaded
+	if (extensions.includes("mhchem")) {
+		await dynamicRequire<typeof import("katex/contrib/mhchem")>(
+			BUNDLE, "katex/contrib/mhchem")
+	}
+}
+
+export async function loadLatexEngine(
+	engine: Settings.Profile.Latex.Engine,
+): Promise<void> {
+	// Loaded by Obsidian on demand, shared with notes
+	if (engine === "mathjax") { await loadMathJax() }
+}
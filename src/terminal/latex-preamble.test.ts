@@ -0,0 +1,61 @@
+import { deepStrictEqual, ok } from "node:assert/strict"
+import { describe, it } from "node:test"
+import { parseLatexMacros } from "./latex-preamble.js"
+
+// A preamble as kept in a vault, mixing the supported definition commands
+const PREAMBLE = String.raw`
+\documentclass{article}
+\usepackage{amsmath} % For \DeclareMathOperator
+\newcommand{\R}{\mathbb{R}}
+\newcommand\abs[1]{\left\lvert #1 \right\rvert}
+\renewcommand{\vec}[1]{\mathbf{#1}}
+\providecommand{\R}{R}
+\providecommand{\N}{\mathbb{N}}
+\newcommand{\set}[1]{\{ #1 \}}
+\newcommand{\pct}{50\%} % Escaped percent signs are kept
+\DeclareMathOperator{\tr}{tr}
+\DeclareMathOperator*{\argmax}{arg\,max}
+\def\half{\frac12}
+\def\pair#1#2{(#1, #2)}
+% \newcommand{\commented}{out}
+\begin{document}
+\end{document}
+`
+
+describe("parseLatexMacros", () => {
+	it("reads the definitions of a preamble", () => {
+		/* eslint-disable @typescript-eslint/naming-convention */
+		deepStrictEqual({ ...parseLatexMacros(PREAMBLE) }, {
+			"\\N": "\\mathbb{N}",
+			"\\R": "\\mathbb{R}",
+			"\\abs": "\\left\\lvert #1 \\right\\rvert",
+			"\\argmax": "\\operatorname*{arg\\,max}",
+			"\\half": "\\frac12",
+			"\\pair": "(#1, #2)",
+			"\\pct": "50\\%",
+			"\\set": "\\{ #1 \\}",
+			"\\tr": "\\operatorname{tr}",
+			"\\vec": "\\mathbf{#1}",
+		})
+		/* eslint-enable @typescript-eslint/naming-convention */
+	})
+
+	it("keeps percent signs of Markdown notes", () => {
+		deepStrictEqual(
+			Object.keys(parseLatexMacros("% \\newcommand{\\x}{y}", false)),
+			["\\x"],
+		)
+	})
+
+	it("skips definitions KaTeX cannot take", () => {
+		// Optional arguments with defaults, and unclosed bodies
+		deepStrictEqual(Object.keys(parseLatexMacros([
+			"\\newcommand{\\pow}[2][2]{#2^{#1}}",
+			"\\newcommand{\\open}{x",
+		].join("\n"))), [])
+	})
+
+	it("returns frozen macros", () => {
+		ok(Object.isFrozen(parseLatexMacros(PREAMBLE)))
+	})
+})
@@ -0,0 +1,148 @@
+import { Component, TFile, normalizePath } from "obsidian"
+import {
+	anyToError,
+	deepFreeze,
+	printError,
+} from "@polyipseity/obsidian-plugin-library"
+import type { TerminalPlugin } from "../main.js"
+
+const
+	COMMENT_REGEX = /(?<!\\)%.*$/gmu,
+	// eslint-disable-next-line max-len
+	DEFINITION_REGEX = /\\(?:(?<command>(?:renew|provide|new)command|DeclareMathOperator)(?<star>\*?)|[gex]?def(?![a-zA-Z]))/gu,
+	NAME_REGEX = /^\\(?:[a-zA-Z@]+|.)/u
+
+function skipSpaces(text: string, index: number): number {
+	let ret = index
+	while (/\s/u.test(text[ret] ?? "")) { ++ret }
+	return ret
+}
+
+function readArgument(
+	text: string,
+	index: number,
+): { readonly value: string, readonly end: number } | null {
+	const start = skipSpaces(text, index)
+	if (text[start] === "{") {
+		let depth = 0
+		for (let idx = start; idx < text.length; ++idx) {
+			const char = text[idx]
+			if (char === "\\") {
+				++idx
+			} else if (char === "{") {
+				++depth
+			} else if (char === "}" && --depth <= 0) {
+				return { end: idx + 1, value: text.slice(start + 1, idx).trim() }
+			}
+		}
+		return null
+	}
+	const name = NAME_REGEX.exec(text.slice(start))
+	if (name) { return { end: start + name[0].length, value: name[0] } }
+	return null
+}
+
+function readOptional(
+	text: string,
+	index: number,
+): { readonly value: string, readonly end: number } | null {
+	const start = skipSpaces(text, index)
+	if (text[start] !== "[") { return null }
+	const end = text.indexOf("]", start)
+	if (end === -1) { return null }
+	return { end: end + 1, value: text.slice(start + 1, end).trim() }
+}
+
+export function parseLatexMacros(
+	text: string,
+	comments = true,
+): LatexPreamble.Macros {
+	const source = comments ? text.replace(COMMENT_REGEX, "") : text,
+		ret: Record<string, string> = {}
+	for (const match of source.matchAll(DEFINITION_REGEX)) {
+		const { command, star } = match.groups ?? {},
+			name = readArgument(source, match.index + match[0].length)
+		if (!name || !NAME_REGEX.test(name.value)) { continue }
+		let { end } = name
+		if (command === void 0) {
+			// `\def\name#1#2{body}`
+			const body = source.indexOf("{", end)
+			if (body === -1) { continue }
+			end = body
+		} else if (command !== "DeclareMathOperator") {
+			const args = readOptional(source, end)
+			if (args) {
+				({ end } = args)
+				// Optional arguments with defaults are not supported by KaTeX
+				if (readOptional(source, end)) { continue }
+			}
+		}
+		const body = readArgument(source, end)
+		if (!body) { continue }
+		if (command === "providecommand" && name.value in ret) { continue }
+		ret[name.value] = command === "DeclareMathOperator"
+			? `\\operatorname${star ?? ""}{${body.value}}`
+			: body.value
+	}
+	return deepFreeze(ret)
+}
+
+export class LatexPreamble extends Component {
+	#macros: LatexPreamble.Macros = deepFreeze({})
+	#generation = 0
+
+	public constructor(protected readonly context: TerminalPlugin) { super() }
+
+	public get macros(): LatexPreamble.Macros {
+		return this.#macros
+	}
+
+	public override onload(): void {
+		super.onload()
+		const { context: { app: { vault, workspace }, settings } } = this,
+			reload = (file: { readonly path: string }): void => {
+				if (file.path === this.path()) { this.reload() }
+			}
+		this.registerEvent(vault.on("modify", reload))
+		this.registerEvent(vault.on("create", reload))
+		this.registerEvent(vault.on("delete", reload))
+		this.registerEvent(vault.on("rename", (file, oldPath) => {
+			reload(file)
+			reload({ path: oldPath })
+		}))
+		this.register(settings.onMutate(
+			settings0 => settings0.latexPreamble,
+			() => { this.reload() },
+		))
+		workspace.onLayoutReady(() => { this.reload() })
+	}
+
+	protected path(): string | null {
+		const { latexPreamble } = this.context.settings.value
+		return latexPreamble ? normalizePath(latexPreamble) : null
+	}
+
+	protected reload(): void {
+		const { context, context: { app: { vault }, language } } = this,
+			generation = ++this.#generation,
+			path = this.path(),
+			file = path === null ? null : vault.getAbstractFileByPath(path)
+		if (!(file instanceof TFile)) {
+			this.#macros = deepFreeze({})
+			return
+		}
+		vault.read(file).then(text => {
+			if (generation !== this.#generation) { return }
+			this.#macros = parseLatexMacros(text, file.extension !== "md")
+		}).catch((error: unknown) => {
+			printError(
+				anyToError(error),
+				() => language.value.t("errors.error-loading-LaTeX-preamble"),
+				context,
+			)
+		})
+	}
+}
+export namespace LatexPreamble {
+	export type Macros = Readonly<Record<string, string>>
+}
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test"
+import { latexToUnicode } from "./latex-unicode.js"
+import { strictEqual } from "node:assert/strict"
+
+describe("latexToUnicode", () => {
+	it("converts symbols and fonts", () => {
+		strictEqual(latexToUnicode("\\alpha \\le \\pi"), "α ≤ π")
+		strictEqual(latexToUnicode("x \\in \\mathbb{R}"), "x ∈ ℝ")
+		strictEqual(latexToUnicode("\\sin x \\cdot \\text{if} y"), "sin x ⋅ if y")
+	})
+
+	it("converts scripts with Unicode forms", () => {
+		strictEqual(latexToUnicode("x_1^2 + x^\\alpha"), "x₁² + xᵅ")
+		strictEqual(latexToUnicode("90^\\circ"), "90°")
+		strictEqual(latexToUnicode("f'(x)"), "f′(x)")
+		// Only whole groups are converted
+		strictEqual(latexToUnicode("x^q"), null)
+		strictEqual(latexToUnicode("x^{2q}"), null)
+	})
+
+	it("writes fractions and roots inline", () => {
+		strictEqual(latexToUnicode("\\frac{1}{2}"), "1⁄2")
+		strictEqual(latexToUnicode("\\frac{a+b}{2}"), "(a+b)⁄2")
+		strictEqual(latexToUnicode("\\sqrt{x} + \\sqrt[3]{y}"), "√x + ∛y")
+	})
+
+	it("leaves layout to overlays", () => {
+		strictEqual(latexToUnicode("\\begin{matrix}a\\end{matrix}"), null)
+		strictEqual(latexToUnicode("a & b"), null)
+		strictEqual(latexToUnicode("\\undefined"), null)
+	})
+})
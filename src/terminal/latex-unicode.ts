@@ -0,0 +1,451 @@
+import { deepFreeze } from "@polyipseity/obsidian-plugin-library"
+
+interface Reader {
+	readonly tokens: readonly string[]
+	index: number
+}
+
+const
+	TOKEN_REGEX = /\\(?:[a-zA-Z]+|[\s\S])|\s+|[\s\S]/gu,
+	WHITESPACE_REGEX = /^\s+$/u,
+	PRIMES_REGEX = /^′+$/u,
+	// Wrapped in parentheses when part of a fraction or a root
+	COMPOUND_REGEX = /[\s+\-−=<>±∓×÷⋅⁄,/]/u,
+	/* eslint-disable @typescript-eslint/naming-convention, id-length */
+	SYMBOLS: Readonly<Record<string, string>> = deepFreeze({
+		" ": " ",
+		"!": "",
+		"#": "#",
+		$: "$",
+		"%": "%",
+		"&": "&",
+		",": " ",
+		":": " ",
+		";": " ",
+		Delta: "Δ",
+		Gamma: "Γ",
+		Im: "ℑ",
+		Lambda: "Λ",
+		Leftarrow: "⇐",
+		Leftrightarrow: "⇔",
+		Omega: "Ω",
+		Phi: "Φ",
+		Pi: "Π",
+		Psi: "Ψ",
+		Re: "ℜ",
+		Rightarrow: "⇒",
+		Sigma: "Σ",
+		Theta: "Θ",
+		Upsilon: "Υ",
+		Xi: "Ξ",
+		_: "_",
+		aleph: "ℵ",
+		alpha: "α",
+		angle: "∠",
+		approx: "≈",
+		ast: "∗",
+		beta: "β",
+		bot: "⊥",
+		bullet: "∙",
+		cap: "∩",
+		cdot: "⋅",
+		cdots: "⋯",
+		chi: "χ",
+		circ: "∘",
+		cong: "≅",
+		coprod: "∐",
+		cup: "∪",
+		dagger: "†",
+		ddots: "⋱",
+		degree: "°",
+		delta: "δ",
+		div: "÷",
+		dots: "…",
+		downarrow: "↓",
+		ell: "ℓ",
+		emptyset: "∅",
+		epsilon: "ϵ",
+		equiv: "≡",
+		eta: "η",
+		exists: "∃",
+		forall: "∀",
+		gamma: "γ",
+		ge: "≥",
+		geq: "≥",
+		gets: "←",
+		gg: "≫",
+		hbar: "ℏ",
+		iff: "⟺",
+		iiint: "∭",
+		iint: "∬",
+		implies: "⟹",
+		"in": "∈",
+		infty: "∞",
+		"int": "∫",
+		iota: "ι",
+		kappa: "κ",
+		lambda: "λ",
+		land: "∧",
+		langle: "⟨",
+		lceil: "⌈",
+		ldots: "…",
+		le: "≤",
+		leftarrow: "←",
+		leftrightarrow: "↔",
+		leq: "≤",
+		lfloor: "⌊",
+		ll: "≪",
+		lnot: "¬",
+		lor: "∨",
+		mapsto: "↦",
+		mid: "∣",
+		models: "⊨",
+		mp: "∓",
+		mu: "μ",
+		nabla: "∇",
+		ne: "≠",
+		neg: "¬",
+		neq: "≠",
+		nexists: "∄",
+		ni: "∋",
+		notin: "∉",
+		nu: "ν",
+		oint: "∮",
+		omega: "ω",
+		oplus: "⊕",
+		otimes: "⊗",
+		parallel: "∥",
+		partial: "∂",
+		perp: "⊥",
+		phi: "ϕ",
+		pi: "π",
+		pm: "±",
+		prime: "′",
+		prod: "∏",
+		propto: "∝",
+		psi: "ψ",
+		qquad: "  ",
+		quad: " ",
+		rangle: "⟩",
+		rceil: "⌉",
+		rfloor: "⌋",
+		rho: "ρ",
+		rightarrow: "→",
+		setminus: "∖",
+		sigma: "σ",
+		sim: "∼",
+		simeq: "≃",
+		star: "⋆",
+		subset: "⊂",
+		subseteq: "⊆",
+		sum: "∑",
+		supset: "⊃",
+		supseteq: "⊇",
+		tau: "τ",
+		theta: "θ",
+		times: "×",
+		to: "→",
+		top: "⊤",
+		uparrow: "↑",
+		upsilon: "υ",
+		varepsilon: "ε",
+		varnothing: "∅",
+		varphi: "φ",
+		varpi: "ϖ",
+		varrho: "ϱ",
+		varsigma: "ς",
+		vartheta: "ϑ",
+		vdash: "⊢",
+		vdots: "⋮",
+		vee: "∨",
+		wedge: "∧",
+		xi: "ξ",
+		zeta: "ζ",
+		"{": "{",
+		"|": "‖",
+		"}": "}",
+	}),
+	SUPERSCRIPTS: Readonly<Record<string, string>> = deepFreeze({
+		"(": "⁽",
+		")": "⁾",
+		"+": "⁺",
+		"-": "⁻",
+		"0": "⁰",
+		"1": "¹",
+		"2": "²",
+		"3": "³",
+		"4": "⁴",
+		"5": "⁵",
+		"6": "⁶",
+		"7": "⁷",
+		"8": "⁸",
+		"9": "⁹",
+		"=": "⁼",
+		A: "ᴬ",
+		B: "ᴮ",
+		D: "ᴰ",
+		E: "ᴱ",
+		G: "ᴳ",
+		H: "ᴴ",
+		I: "ᴵ",
+		J: "ᴶ",
+		K: "ᴷ",
+		L: "ᴸ",
+		M: "ᴹ",
+		N: "ᴺ",
+		O: "ᴼ",
+		P: "ᴾ",
+		R: "ᴿ",
+		T: "ᵀ",
+		U: "ᵁ",
+		V: "ⱽ",
+		W: "ᵂ",
+		a: "ᵃ",
+		b: "ᵇ",
+		c: "ᶜ",
+		d: "ᵈ",
+		e: "ᵉ",
+		f: "ᶠ",
+		g: "ᵍ",
+		h: "ʰ",
+		i: "ⁱ",
+		j: "ʲ",
+		k: "ᵏ",
+		l: "ˡ",
+		m: "ᵐ",
+		n: "ⁿ",
+		o: "ᵒ",
+		p: "ᵖ",
+		r: "ʳ",
+		s: "ˢ",
+		t: "ᵗ",
+		u: "ᵘ",
+		v: "ᵛ",
+		w: "ʷ",
+		x: "ˣ",
+		y: "ʸ",
+		z: "ᶻ",
+		α: "ᵅ",
+		β: "ᵝ",
+		γ: "ᵞ",
+		δ: "ᵟ",
+		ε: "ᵋ",
+		θ: "ᶿ",
+		ι: "ᶥ",
+		φ: "ᵠ",
+		χ: "ᵡ",
+		"−": "⁻",
+	}),
+	SUBSCRIPTS: Readonly<Record<string, string>> = deepFreeze({
+		"(": "₍",
+		")": "₎",
+		"+": "₊",
+		"-": "₋",
+		"0": "₀",
+		"1": "₁",
+		"2": "₂",
+		"3": "₃",
+		"4": "₄",
+		"5": "₅",
+		"6": "₆",
+		"7": "₇",
+		"8": "₈",
+		"9": "₉",
+		"=": "₌",
+		a: "ₐ",
+		e: "ₑ",
+		h: "ₕ",
+		i: "ᵢ",
+		j: "ⱼ",
+		k: "ₖ",
+		l: "ₗ",
+		m: "ₘ",
+		n: "ₙ",
+		o: "ₒ",
+		p: "ₚ",
+		r: "ᵣ",
+		s: "ₛ",
+		t: "ₜ",
+		u: "ᵤ",
+		v: "ᵥ",
+		x: "ₓ",
+		β: "ᵦ",
+		γ: "ᵧ",
+		ρ: "ᵨ",
+		φ: "ᵩ",
+		χ: "ᵪ",
+		"−": "₋",
+	}),
+	DOUBLE_STRUCK: Readonly<Record<string, string>> = deepFreeze({
+		C: "ℂ",
+		H: "ℍ",
+		N: "ℕ",
+		P: "ℙ",
+		Q: "ℚ",
+		R: "ℝ",
+		Z: "ℤ",
+	}),
+	ROOTS: Readonly<Record<string, string>> =
+		deepFreeze({ "": "√", "3": "∛", "4": "∜" }),
+	/* eslint-enable @typescript-eslint/naming-convention, id-length */
+	FUNCTIONS = new Set([
+		"arccos",
+		"arcsin",
+		"arctan",
+		"cos",
+		"cosh",
+		"cot",
+		"csc",
+		"deg",
+		"det",
+		"dim",
+		"exp",
+		"gcd",
+		"inf",
+		"ker",
+		"lim",
+		"ln",
+		"log",
+		"max",
+		"min",
+		"sec",
+		"sin",
+		"sinh",
+		"sup",
+		"tan",
+		"tanh",
+	]),
+	TEXT_COMMANDS = new Set([
+		"mathbf",
+		"mathit",
+		"mathrm",
+		"operatorname",
+		"text",
+		"textbf",
+		"textit",
+		"textrm",
+	])
+
+function compound(text: string): string {
+	return COMPOUND_REGEX.test(text) ? `(${text})` : text
+}
+
+function script(
+	text: string,
+	scripts: Readonly<Record<string, string>>,
+): string | null {
+	let ret = ""
+	for (const char of text.replace(/\s/gu, "")) {
+		const char0 = scripts[char]
+		if (char0 === void 0) { return null }
+		ret += char0
+	}
+	return ret
+}
+
+function convertGroup(reader: Reader, closing: string | null): string | null {
+	let ret = ""
+	for (let token = reader.tokens[reader.index];
+		token !== void 0;
+		token = reader.tokens[reader.index]) {
+		++reader.index
+		if (token === closing) { return ret }
+		const text = convertToken(reader, token)
+		if (text === null) { return null }
+		ret += text
+	}
+	return closing === null ? ret : null
+}
+
+function convertArgument(reader: Reader): string | null {
+	while (WHITESPACE_REGEX.test(reader.tokens[reader.index] ?? "")) {
+		++reader.index
+	}
+	const token = reader.tokens[reader.index]
+	if (token === void 0) { return null }
+	++reader.index
+	if (token === "{") { return convertGroup(reader, "}") }
+	return convertToken(reader, token)
+}
+
+function convertOptional(reader: Reader): string | null {
+	if (reader.tokens[reader.index] !== "[") { return "" }
+	++reader.index
+	return convertGroup(reader, "]")
+}
+
+function convertCommand(reader: Reader, name: string): string | null {
+	const symbol = SYMBOLS[name]
+	if (symbol !== void 0) { return symbol }
+	if (FUNCTIONS.has(name)) { return name }
+	if (TEXT_COMMANDS.has(name)) { return convertArgument(reader) }
+	switch (name) {
+		case "dfrac":
+		case "frac":
+		case "tfrac": {
+			const numerator = convertArgument(reader),
+				denominator = convertArgument(reader)
+			if (numerator === null || denominator === null) { return null }
+			return `${compound(numerator)}⁄${compound(denominator)}`
+		}
+		case "sqrt": {
+			const index = convertOptional(reader),
+				radicand = convertArgument(reader),
+				root = index === null ? void 0 : ROOTS[index]
+			if (root === void 0 || radicand === null) { return null }
+			return `${root}${compound(radicand)}`
+		}
+		case "mathbb": {
+			const argument = convertArgument(reader)
+			return argument === null ? null : script(argument, DOUBLE_STRUCK)
+		}
+		case "left":
+		case "right": {
+			const delimiter = convertArgument(reader)
+			// `.` is an invisible delimiter
+			return delimiter === "." ? "" : delimiter
+		}
+		default:
+			// Environments, matrices, accents, and unknown macros
+			return null
+	}
+}
+
+function convertToken(reader: Reader, token: string): string | null {
+	if (WHITESPACE_REGEX.test(token)) { return " " }
+	if (token.startsWith("\\")) { return convertCommand(reader, token.slice(1)) }
+	switch (token) {
+		case "^": {
+			const argument = convertArgument(reader)
+			if (argument === null) { return null }
+			// Primes and degrees are raised already
+			if (PRIMES_REGEX.test(argument)) { return argument }
+			if (argument === "∘") { return "°" }
+			return script(argument, SUPERSCRIPTS)
+		}
+		case "_": {
+			const argument = convertArgument(reader)
+			return argument === null ? null : script(argument, SUBSCRIPTS)
+		}
+		case "{":
+			return convertGroup(reader, "}")
+		case "'":
+			return "′"
+		case "~":
+			return " "
+		case "}":
+		case "&":
+		case "#":
+			return null
+		default:
+			return token
+	}
+}
+
+export function latexToUnicode(source: string): string | null {
+	const text = convertGroup(
+		{ index: 0, tokens: source.match(TOKEN_REGEX) ?? [] },
+		null,
+	)
+	return text?.trim() ?? null
+}
@@ -0,0 +1,118 @@
+import {
+	DEFAULT_LATEX_OPTIONS,
+	LATEX_DELIMITER_PRESETS,
+} from "./profile-presets.js"
+import { deepStrictEqual, strictEqual } from "node:assert/strict"
+import { describe, it } from "node:test"
+import {
+	enabledDelimiters,
+	explainLatex,
+	latexGuard,
+	scanLatex,
+} from "./latex.js"
+import { Settings } from "../settings-data.js"
+
+const { dollar, tex } = LATEX_DELIMITER_PRESETS,
+	GUARD = latexGuard(Settings.DEFAULT.latexGuards)
+
+function sources(
+	text: string,
+	delimiters: readonly Settings.Profile.Latex.Delimiter[] = dollar,
+): readonly string[] {
+	return scanLatex(text, delimiters, GUARD).map(({ source }) => source)
+}
+
+function rules(
+	text: string,
+	rules0 = Settings.DEFAULT.latexGuards,
+): readonly (string | null)[] {
+	return explainLatex(text, dollar, latexGuard(rules0)).map(({ rule }) => rule)
+}
+
+describe("scanLatex", () => {
+	it("locates math in the text", () => {
+		deepStrictEqual(
+			scanLatex("a $x^2$ b $$\\frac12$$", dollar)
+				.map(({ display, end, source, start }) =>
+					({ display, end, source, start })),
+			[
+				{ display: false, end: 7, source: "x^2", start: 2 },
+				{ display: true, end: 21, source: "\\frac12", start: 10 },
+			],
+		)
+	})
+
+	it("prefers longer delimiters", () => {
+		deepStrictEqual(sources("$$a+b$$"), ["a+b"])
+		deepStrictEqual(sources("\\[a\\] \\(b\\)", tex), ["a", "b"])
+	})
+
+	it("keeps inline math on one line", () => {
+		deepStrictEqual(sources("$a\nb$"), [])
+		deepStrictEqual(sources("$$a\n+b$$"), ["a\n+b"])
+	})
+
+	it("skips escaped, empty, and unclosed delimiters", () => {
+		deepStrictEqual(sources("\\$a+b\\$"), [])
+		deepStrictEqual(sources("$ $ $$"), [])
+		deepStrictEqual(sources("$x^2"), [])
+	})
+})
+
+describe("explainLatex", () => {
+	it("rejects shell variables", () => {
+		deepStrictEqual(rules("echo $PATH:$HOME"), ["identifiers"])
+		deepStrictEqual(rules("costs $5 and $10"), ["identifiers"])
+		deepStrictEqual(sources("echo $PATH:$HOME; $x$"), ["x"])
+	})
+
+	it("rejects prose", () => {
+		deepStrictEqual(rules("$hello world$"), ["mathTokens"])
+		deepStrictEqual(rules("$x$ and $\\alpha$"), [null, null])
+	})
+
+	it("rejects dollars of prompts", () => {
+		deepStrictEqual(rules("user@host:~$ echo $x$"), ["prompts", null])
+		deepStrictEqual(rules("(venv) user@host:~$ echo $y$"), ["prompts", null])
+	})
+
+	it("checks deny patterns before allow patterns", () => {
+		const rules0 = { ...Settings.DEFAULT.latexGuards, allow: ["^\\$a"] }
+		deepStrictEqual(rules("$a b c$", rules0), ["allow"])
+		deepStrictEqual(rules("$a b c$", { ...rules0, deny: ["b"] }), ["deny"])
+	})
+
+	it("disables heuristics individually", () => {
+		deepStrictEqual(rules("$PATH:$", {
+			...Settings.DEFAULT.latexGuards,
+			identifiers: false,
+			mathTokens: false,
+		}), [null])
+	})
+})
+
+describe("latexGuard", () => {
+	it("compiles each rule set once", () => {
+		const { latexGuards } = Settings.DEFAULT
+		strictEqual(latexGuard(latexGuards), latexGuard(latexGuards))
+	})
+
+	it("collects invalid patterns", () => {
+		deepStrictEqual(latexGuard({
+			...Settings.DEFAULT.latexGuards,
+			allow: ["(", "a"],
+			deny: ["[z-a]"],
+		}).invalid, ["(", "[z-a]"])
+	})
+})
+
+describe("enabledDelimiters", () => {
+	it("filters delimiters by mode", () => {
+		const options = { ...DEFAULT_LATEX_OPTIONS, delimiters: dollar }
+		deepStrictEqual(enabledDelimiters({ ...options, inline: false }), [
+			{ display: true, left: "$$", right: "$$" },
+		])
+		deepStrictEqual(enabledDelimiters({ ...options, enabled: false }), [])
+		deepStrictEqual(enabledDelimiters({ ...options, heuristics: false }), [])
+	})
+})
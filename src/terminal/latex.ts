@@ -0,0 +1,163 @@
+import type { Settings } from "../settings-data.js"
+import { deepFreeze } from "@polyipseity/obsidian-plugin-library"
+
+export interface LatexMatch {
+	readonly start: number
+	readonly end: number
+	readonly source: string
+	readonly display: boolean
+	readonly delimiter: Settings.Profile.Latex.Delimiter
+}
+
+export interface LatexGuard {
+	readonly rules: Settings.LatexGuards
+	readonly allow: readonly RegExp[]
+	readonly deny: readonly RegExp[]
+	readonly invalid: readonly string[]
+}
+export namespace LatexGuard {
+	export const RULES =
+		deepFreeze(["deny", "allow", "prompts", "identifiers", "mathTokens"])
+	export type Rule = typeof RULES[number]
+	export interface Result {
+		readonly match: LatexMatch
+		readonly rule: Rule | null
+	}
+	export function accepts(rule: Rule | null): boolean {
+		return rule === null || rule === "allow"
+	}
+}
+
+const
+	LATEX_GUARDS = new WeakMap<Settings.LatexGuards, LatexGuard>(),
+	IDENTIFIER_CONTINUATION_REGEX = /^[\p{L}\p{N}_]/u,
+	MATH_TOKEN_REGEX = /\\[a-zA-Z]+|[\^_=<>+\-*/|{}]|^\s*[\p{L}\p{N}]\s*$/u,
+	PROMPT_REGEX =
+		/^(?:\([^)\n]*\)\s*)?(?:[\w.-]+@[\w.-]+[^\n$#%>]*[$#%>]|PS [^\n>]*>)\s/u
+
+function isEscaped(text: string, index: number): boolean {
+	let ret = false
+	for (let idx = index - 1; idx >= 0 && text[idx] === "\\"; --idx) {
+		ret = !ret
+	}
+	return ret
+}
+
+function matchAt(
+	text: string,
+	start: number,
+	delimiters: readonly Settings.Profile.Latex.Delimiter[],
+): LatexMatch | null {
+	for (const delimiter of delimiters) {
+		const { display, left, right } = delimiter
+		if (!text.startsWith(left, start) ||
+			(!left.startsWith("\\") && isEscaped(text, start))) { continue }
+		const from = start + left.length
+		for (let end = text.indexOf(right, from);
+			end !== -1;
+			end = text.indexOf(right, end + 1)) {
+			if (!right.startsWith("\\") && isEscaped(text, end)) { continue }
+			const source = text.slice(from, end)
+			if (!source.trim() || (!display && source.includes("\n"))) { break }
+			return { delimiter, display, end: end + right.length, source, start }
+		}
+	}
+	return null
+}
+
+export function latexGuard(rules: Settings.LatexGuards): LatexGuard {
+	let ret = LATEX_GUARDS.get(rules)
+	if (ret) { return ret }
+	const invalid: string[] = [],
+		compile = (patterns: readonly string[]): readonly RegExp[] =>
+			patterns.flatMap(pattern => {
+				try {
+					return [new RegExp(pattern, "u")]
+				} catch (error) {
+					/* @__PURE__ */ self.console.debug(error)
+					invalid.push(pattern)
+					return []
+				}
+			})
+	ret = {
+		allow: compile(rules.allow),
+		deny: compile(rules.deny),
+		invalid,
+		rules,
+	}
+	LATEX_GUARDS.set(rules, ret)
+	return ret
+}
+
+export function checkLatexGuard(
+	guard: LatexGuard,
+	text: string,
+	match: LatexMatch,
+): LatexGuard.Rule | null {
+	const { allow, deny, rules: { identifiers, mathTokens, prompts } } = guard,
+		{ delimiter: { left }, display, end, source, start } = match,
+		raw = text.slice(start, end)
+	if (deny.some(regex => regex.test(raw))) { return "deny" }
+	if (allow.some(regex => regex.test(raw))) { return "allow" }
+	if (prompts) {
+		const
+			lineStart = Math.max(
+				text.lastIndexOf("\n", start - 1),
+				text.lastIndexOf("\r", start - 1),
+			) + 1,
+			prompt = PROMPT_REGEX.exec(text.slice(lineStart))
+		if (prompt && start < lineStart + prompt[0].length) { return "prompts" }
+	}
+	// Shell variables such as `$PATH`, `$1`, and `$5 and $10`
+	if (identifiers && !display && left.includes("$") &&
+		(source.trim() !== source ||
+			IDENTIFIER_CONTINUATION_REGEX.test(text.slice(end)))) {
+		return "identifiers"
+	}
+	if (mathTokens && !MATH_TOKEN_REGEX.test(source)) { return "mathTokens" }
+	return null
+}
+
+export function explainLatex(
+	text: string,
+	delimiters: readonly Settings.Profile.Latex.Delimiter[],
+	guard?: LatexGuard,
+): readonly LatexGuard.Result[] {
+	const
+		sorted = [...delimiters]
+			.sort(({ left: left0 }, { left: left1 }) => left1.length - left0.length),
+		ret: LatexGuard.Result[] = []
+	for (let start = 0; start < text.length;) {
+		const match = matchAt(text, start, sorted)
+		if (match) {
+			const rule = guard ? checkLatexGuard(guard, text, match) : null
+			ret.push({ match, rule })
+			if (LatexGuard.accepts(rule)) {
+				start = match.end
+				continue
+			}
+		}
+		// Unmatched, escaped, or guarded delimiters are skipped as literal text
+		start += sorted.find(({ left }) => text.startsWith(left, start))
+			?.left.length ?? 1
+	}
+	return ret
+}
+
+export function scanLatex(
+	text: string,
+	delimiters: readonly Settings.Profile.Latex.Delimiter[],
+	guard?: LatexGuard,
+): readonly LatexMatch[] {
+	return explainLatex(text, delimiters, guard)
+		.filter(({ rule }) => LatexGuard.accepts(rule))
+		.map(({ match }) => match)
+}
+
+export function enabledDelimiters(
+	options: Settings.Profile.Latex,
+): readonly Settings.Profile.Latex.Delimiter[] {
+	const { delimiters, display, enabled, heuristics, inline } = options
+	if (!enabled || !heuristics) { return [] }
+	return delimiters.filter(delimiter => delimiter.display ? display : inline)
+}
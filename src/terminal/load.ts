@@ -1,3 +1,7 @@
+import {
+	DEFAULT_ENCODING,
+	REPLAYABLE_TERMINAL_WRITE_LOG_EXTENSION,
+} from "../magic.js"
 import {
 	FileSystemAdapter,
 	MarkdownView,
@@ -8,19 +12,30 @@ import {
 	Platform,
 	addCommand,
 	addRibbonIcon,
+	anyToError,
 	deepFreeze,
 	isNonNil,
 	notice2,
+	printError,
+	saveFileAs,
 } from "@polyipseity/obsidian-plugin-library"
-import { SelectProfileModal, spawnTerminal } from "./spawn.js"
+import {
+	SelectProfileModal,
+	SelectReplayLogModal,
+	spawnTerminal,
+} from "./spawn.js"
+import { EquationGalleryView } from "./equation-gallery.js"
 import { PROFILE_PROPERTIES } from "./profile-properties.js"
 import { Settings } from "../settings-data.js"
 import type { TerminalPlugin } from "../main.js"
 import { TerminalView } from "./view.js"
 import { isEmpty } from "lodash-es"
+import richOutputPy from "./rich_output.py"
+import { terminalWriteLogDirectory } from "./util.js"
 
 export function loadTerminal(context: TerminalPlugin): void {
 	TerminalView.load(context)
+	EquationGalleryView.load(context)
 	const
 		PROFILE_TYPES = deepFreeze(([
 			"select",
@@ -181,6 +196,60 @@ export function loadTerminal(context: TerminalPlugin): void {
 		icon: i18n.t("asset:commands.open-developer-console-icon"),
 		id: "open-terminal.developerConsole",
 	})
+	addCommand(context, () => i18n.t("commands.save-rich-output-helper"), {
+		callback() {
+			(async (): Promise<void> => {
+				await saveFileAs(context, vault.adapter, new File(
+					[await richOutputPy],
+					"rich_output.py",
+					{ type: `text/x-python; charset=${DEFAULT_ENCODING};` },
+				))
+			})().catch((error: unknown) => {
+				printError(
+					anyToError(error),
+					() => i18n.t("errors.error-saving-rich-output-helper"),
+					context,
+				)
+			})
+		},
+		icon: i18n.t("asset:commands.save-rich-output-helper-icon"),
+		id: "save-rich-output-helper",
+	})
+	addCommand(context, () => i18n.t("commands.replay-terminal-write-log"), {
+		callback() {
+			(async (): Promise<void> => {
+				const { adapter: adapter0 } = vault,
+					directory = terminalWriteLogDirectory(context),
+					paths = await adapter0.exists(directory)
+						? (await adapter0.list(directory)).files
+							.filter(path => path
+								.endsWith(`.${REPLAYABLE_TERMINAL_WRITE_LOG_EXTENSION}`))
+							.sort()
+							.reverse()
+						: []
+				if (isEmpty(paths)) {
+					notice2(
+						() => i18n.t("notices.no-terminal-write-logs", {
+							interpolation: { escapeValue: false },
+							path: directory,
+						}),
+						settings.value.errorNoticeTimeout,
+						context,
+					)
+					return
+				}
+				new SelectReplayLogModal(context, paths).open()
+			})().catch((error: unknown) => {
+				printError(
+					anyToError(error),
+					() => i18n.t("errors.error-replaying-terminal-write-log"),
+					context,
+				)
+			})
+		},
+		icon: i18n.t("asset:commands.replay-terminal-write-log-icon"),
+		id: "replay-terminal-write-log",
+	})
 	for (const type of PROFILE_TYPES) {
 		for (const cwd of CWD_TYPES) {
 			if (EXCLUDED_TYPES.some(({ cwd: cwd0, profile }) =>
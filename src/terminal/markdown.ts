@@ -0,0 +1,316 @@
+import { DOMClasses2, MAX_MARKDOWN_BLOCK_LINES } from "../magic.js"
+import {
+	Functions,
+	UnnamespacedID,
+	deepFreeze,
+} from "@polyipseity/obsidian-plugin-library"
+import type { IMarker, ITerminalAddon, Terminal } from "@xterm/xterm"
+import { enabledDelimiters, latexGuard, scanLatex } from "./latex.js"
+import { loadLatexEngine, loadLatexExtensions } from "./latex-extensions.js"
+import type { Settings } from "../settings-data.js"
+import type { TerminalPlugin } from "../main.js"
+import { escape } from "lodash-es"
+import { readLogicalLine } from "./util.js"
+
+const
+	CODE_SPAN_REGEX = /`(?<code>[^`]+)`/gu,
+	FENCE_REGEX = /^\s*(?:```|~~~)/u,
+	FENCE_INFO_REGEX = /^\s*(?:```|~~~)\s*(?<info>.*)$/u,
+	HEADING_REGEX = /^\s*#{1,6}\s+(?<heading>.*?)(?:\s+#+)?\s*$/u,
+	// eslint-disable-next-line max-len
+	INLINE_REGEX = /\*\*\S.*?\*\*|__\S.*?__|~~\S.*?~~|`[^`]+`|(?<![\w*\\])\*[^\s*][^*]*\*(?![\w*])|\[[^\]]+\]\([^)\s]+\)/u,
+	TABLE_ROW_REGEX = /^\s*\|.*\|\s*$/u,
+	TABLE_SEPARATOR_REGEX = /^\s*\|(?:\s*:?-+:?\s*\|)+\s*$/u,
+	TABLE_EDGE_REGEX = /^\s*\||\|\s*$/gu,
+	// Not frozen as replacing with global regular expressions sets `lastIndex`
+	STYLES: readonly (readonly [RegExp, string])[] = [
+		[/\*\*(?<text>\S.*?)\*\*/gu, "<strong>$<text></strong>"],
+		[/__(?<text>\S.*?)__/gu, "<strong>$<text></strong>"],
+		[/~~(?<text>\S.*?)~~/gu, "<del>$<text></del>"],
+		[/(?<![\w*\\])\*(?<text>[^\s*][^*]*)\*(?![\w*])/gu, "<em>$<text></em>"],
+		[/(?<![\w\\])_(?<text>[^\s_][^_]*)_(?!\w)/gu, "<em>$<text></em>"],
+		[/\[(?<text>[^\]]+)\]\([^)\s]+\)/gu, "<u>$<text></u>"],
+	]
+
+function tableCells(line: string): readonly string[] {
+	return line.replace(TABLE_EDGE_REGEX, "").split("|")
+		.map(cell => cell.trim())
+}
+
+export class MarkdownAddon implements ITerminalAddon {
+	static readonly #instances = new WeakMap<Terminal, MarkdownAddon>()
+	readonly #disposer = new Functions({ async: false, settled: true })
+	readonly #overlays = new Map<MarkdownAddon.Block, HTMLElement>()
+	readonly #context
+	readonly #options
+	readonly #className
+	readonly #extensions
+	#terminal: Terminal | null = null
+	#next: IMarker | null = null
+	#pending: MarkdownAddon.Pending | null = null
+	#raw = false
+
+	public constructor(
+		context: TerminalPlugin,
+		options?: Settings.Profile.Latex,
+	) {
+		this.#context = context
+		this.#options = options && options.enabled && options.markdown
+			? options
+			: null
+		this.#className =
+			new UnnamespacedID(DOMClasses2.Namespaced.MARKDOWN).namespaced(context)
+		this.#extensions = Promise.all([
+			loadLatexEngine(this.#options?.engine ?? "katex"),
+			loadLatexExtensions(this.#options?.extensions ?? []),
+		]).catch((error: unknown) => { self.console.error(error) })
+	}
+
+	public get enabled(): boolean {
+		return this.#options !== null
+	}
+
+	public get raw(): boolean {
+		return this.#raw
+	}
+
+	public static get(terminal: Terminal): MarkdownAddon | null {
+		return MarkdownAddon.#instances.get(terminal) ?? null
+	}
+
+	public activate(terminal: Terminal): void {
+		this.#terminal = terminal
+		MarkdownAddon.#instances.set(terminal, this)
+		this.#disposer.push(
+			() => { MarkdownAddon.#instances.delete(terminal) },
+			() => {
+				for (const block of this.#overlays.keys()) { block.marker.dispose() }
+			},
+			() => {
+				this.#next?.dispose()
+				this.#next = null
+				this.#pending?.marker.dispose()
+				this.#pending = null
+			},
+		)
+		if (!this.enabled) { return }
+		const writeParsed = terminal.onWriteParsed(() => { this.scan() })
+		this.#disposer.push(() => { writeParsed.dispose() })
+	}
+
+	public dispose(): void {
+		this.#disposer.call()
+	}
+
+	public toggle(): void {
+		this.#raw = !this.#raw
+		for (const element of this.#overlays.values()) {
+			element.classList.toggle("is-hidden", this.#raw)
+		}
+	}
+
+	protected scan(): void {
+		const terminal = this.#terminal
+		// Full-screen programs draw their own output
+		if (!terminal || terminal.buffer.active.type === "alternate") { return }
+		const { buffer: { active } } = terminal,
+			end = active.baseY + active.cursorY,
+			next = this.#next
+		let line = next && !next.isDisposed ? next.line : end
+		while (line < end) {
+			const { rows, text } = readLogicalLine(active, line)
+			// The line is still being written
+			if (line + rows > end) { break }
+			this.feed(text, line - end, rows)
+			line += rows
+		}
+		next?.dispose()
+		this.#next = terminal.registerMarker(line - end)
+	}
+
+	protected feed(text: string, offset: number, rows: number): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const pending = this.#pending
+		if (pending?.kind === "code") {
+			pending.lines.push(text)
+			pending.rows += rows
+			if (FENCE_REGEX.test(text) ||
+				pending.lines.length >= MAX_MARKDOWN_BLOCK_LINES) {
+				this.finish()
+			}
+			return
+		}
+		if (pending?.kind === "table") {
+			if (TABLE_ROW_REGEX.test(text) &&
+				pending.lines.length < MAX_MARKDOWN_BLOCK_LINES) {
+				pending.lines.push(text)
+				pending.rows += rows
+				return
+			}
+			this.finish()
+		}
+		const kind = FENCE_REGEX.test(text)
+			? "code"
+			: TABLE_ROW_REGEX.test(text)
+				? "table"
+				: HEADING_REGEX.test(text)
+					? "heading"
+					: INLINE_REGEX.test(text)
+						? "paragraph"
+						: null
+		if (kind === null) { return }
+		const marker = terminal.registerMarker(offset)
+		this.#pending = { kind, lines: [text], marker, rows }
+		if (kind === "heading" || kind === "paragraph") { this.finish() }
+	}
+
+	protected finish(): void {
+		const pending = this.#pending
+		this.#pending = null
+		if (!pending) { return }
+		const { kind, lines, marker, rows } = pending
+		if (kind === "table" && !TABLE_SEPARATOR_REGEX.test(lines[1] ?? "")) {
+			marker.dispose()
+			return
+		}
+		this.decorate({ kind, lines, marker, rows })
+	}
+
+	protected decorate(block: MarkdownAddon.Block): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const { marker, rows } = block
+		marker.onDispose(() => { this.#overlays.delete(block) })
+		terminal.registerDecoration({
+			height: rows,
+			layer: "top",
+			marker,
+			width: terminal.cols,
+			// eslint-disable-next-line id-length
+			x: 0,
+		})?.onRender(element => { this.renderOverlay(element, block) })
+	}
+
+	protected renderOverlay(
+		element: HTMLElement,
+		block: MarkdownAddon.Block,
+	): void {
+		this.#overlays.set(block, element)
+		element.classList.toggle("is-hidden", this.#raw)
+		// Outside of the viewport, rendered when scrolled into view instead
+		if (element.classList.contains(this.#className) ||
+			element.style.display === "none") { return }
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const { kind, rows } = block,
+			{ options: { fontFamily, fontSize } } = terminal
+		element.classList.add(this.#className, `${this.#className}-${kind}`)
+		Object.assign(element.style, {
+			fontFamily: fontFamily ?? "",
+			fontSize: `${fontSize ?? 0}px`,
+			lineHeight: `${parseFloat(element.style.height) / rows}px`,
+		})
+		this.#extensions
+			.then(() => {
+				this.#context.latexCache.schedule(() => {
+					element.innerHTML = this.render(block)
+				})
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	// eslint-disable-next-line @typescript-eslint/consistent-return
+	protected render(block: MarkdownAddon.Block): string {
+		const { kind, lines } = block
+		switch (kind) {
+			case "code":
+				return lines.map(line => {
+					const info = FENCE_INFO_REGEX.exec(line)?.groups?.["info"]
+					return info === void 0
+						? `<div>${escape(line) || "&nbsp;"}</div>`
+						: `<div class="${this.#className}-fence">${escape(info)}</div>`
+				}).join("")
+			case "heading":
+				return `<div>${this.renderInline(HEADING_REGEX
+					.exec(lines[0] ?? "")?.groups?.["heading"] ?? "")}</div>`
+			case "paragraph":
+				return `<div>${this.renderInline(lines[0] ?? "")}</div>`
+			case "table":
+				return `<table>${lines.map((line, index) => {
+					const cells = tableCells(line),
+						separator = `${this.#className}-separator`
+					// Kept as a row so that the table stays aligned with the text
+					if (index === 1) {
+						return `<tr class="${separator}"><td colspan="${cells.length}">`
+							.concat("</td></tr>")
+					}
+					const tag = index <= 0 ? "th" : "td"
+					return `<tr>${cells.map(cell =>
+						`<${tag}>${this.renderInline(cell)}</${tag}>`).join("")}</tr>`
+				}).join("")}</table>`
+			// No default
+		}
+	}
+
+	protected renderInline(text: string): string {
+		let ret = "",
+			last = 0
+		for (const { "0": raw, groups, index } of text.matchAll(CODE_SPAN_REGEX)) {
+			const code = escape(groups?.["code"] ?? "")
+			ret += `${this.renderText(text.slice(last, index))}<code>${code}</code>`
+			last = index + raw.length
+		}
+		return `${ret}${this.renderText(text.slice(last))}`
+	}
+
+	protected renderText(text: string): string {
+		const options = this.#options,
+			terminal = this.#terminal
+		if (!options || !terminal) { return "" }
+		const { latexCache, settings } = this.#context,
+			{ options: { fontFamily, fontSize } } = terminal,
+			renderStyles = (text0: string): string =>
+				STYLES.reduce(
+					(html, [regex, replacement]) => html.replace(regex, replacement),
+					escape(text0),
+				)
+		let ret = "",
+			last = 0
+		// Shares delimiters and guards with math outside of Markdown
+		for (const { end, source, start } of scanLatex(
+			text,
+			enabledDelimiters(options),
+			latexGuard(settings.value.latexGuards),
+		)) {
+			// Inline even for display math so that it fits in its rows
+			ret += `${renderStyles(text.slice(last, start))}${latexCache
+				.renderToString(source, {
+					display: false,
+					engine: options.engine,
+					extensions: options.extensions,
+					font: fontFamily ?? "",
+					size: (fontSize ?? 0) * options.fontScale,
+				})}`
+			last = end
+		}
+		return `${ret}${renderStyles(text.slice(last))}`
+	}
+}
+export namespace MarkdownAddon {
+	export const BLOCK_KINDS =
+		deepFreeze(["code", "heading", "paragraph", "table"])
+	export type BlockKind = typeof BLOCK_KINDS[number]
+	export interface Block {
+		readonly kind: BlockKind
+		readonly lines: readonly string[]
+		readonly marker: IMarker
+		readonly rows: number
+	}
+	export interface Pending {
+		readonly kind: BlockKind
+		readonly lines: string[]
+		readonly marker: IMarker
+		rows: number
+	}
+}
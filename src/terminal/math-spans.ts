@@ -0,0 +1,990 @@
+import { type CellColors, cellColors, readLogicalLine } from "./util.js"
+import {
+	DEFAULT_ENCODING,
+	DOMClasses2,
+	MATH_RELAYOUT_WAIT,
+	MAX_EQUATION_HISTORY,
+	MAX_MATH_SPAN_CARRY,
+	RICH_OUTPUT_OSC_IDENTIFIER,
+	RICH_OUTPUT_TYPES,
+} from "../magic.js"
+import {
+	EventEmitterLite,
+	type Fixed,
+	Functions,
+	SI_PREFIX_SCALE,
+	UnnamespacedID,
+	anyToError,
+	deepFreeze,
+	dynamicRequire,
+	inSet,
+	launderUnchecked,
+	markFixed,
+} from "@polyipseity/obsidian-plugin-library"
+import type {
+	IBuffer,
+	IDecorationOptions,
+	IDisposable,
+	IMarker,
+	ITerminalAddon,
+	Terminal,
+} from "@xterm/xterm"
+import { debounce, escape, sortBy } from "lodash-es"
+import { enabledDelimiters, latexGuard, scanLatex } from "./latex.js"
+import {
+	latexMacros,
+	loadLatexEngine,
+	loadLatexExtensions,
+} from "./latex-extensions.js"
+import { AlternateScreenAddon } from "./emulator-addons.js"
+import { BUNDLE } from "../import.js"
+import type { LatexPreamble } from "./latex-preamble.js"
+import type { LatexRenderCache } from "./latex-cache.js"
+import type { SerializeAddon } from "@xterm/addon-serialize"
+import type { Settings } from "../settings-data.js"
+import type { TerminalPlugin } from "../main.js"
+import { base64ToArrayBuffer } from "obsidian"
+import { latexToUnicode } from "./latex-unicode.js"
+
+const
+	katex =
+		dynamicRequire<typeof import("katex")>(
+			BUNDLE, "katex"),
+	renderA11yString =
+		dynamicRequire<typeof import("katex/contrib/render-a11y-string")>(
+			BUNDLE, "katex/contrib/render-a11y-string"),
+	HTML_BODY_REGEX = /^[\s\S]*?<body>|<\/body>[\s\S]*$/gu,
+	HTML_ROW_START = "<div><span>",
+	HTML_ROW_END = "</span></div>",
+	HTML_STYLE_REGEX = /<\/span><span(?: style='[^']*')?>/uy,
+	STANDALONE_CSS = [
+		"pre { white-space: pre-wrap; overflow-wrap: anywhere; }",
+		"@page { margin: 1.5cm; }",
+		"@media print {",
+		"\tbody { print-color-adjust: exact; -webkit-print-color-adjust: exact; }",
+		"\t.katex-display { break-inside: avoid; }",
+		"}",
+	].join("\n"),
+	// eslint-disable-next-line no-control-regex, max-len
+	ESCAPE_SEQUENCE_REGEX = /\u001b(?:\[[\x30-\x3f]*[\x20-\x2f]*[\x40-\x7e]|\][^\u0007\u001b]*(?:\u0007|\u001b\\)|[PX^_][^\u001b]*\u001b\\|[\x20-\x2f]*[\x30-\x7e])/gu
+
+function cssRules(sheet: CSSStyleSheet): readonly CSSRule[] {
+	try {
+		return Array.from(sheet.cssRules)
+	} catch (error) {
+		// Cross-origin style sheets cannot be read
+		/* @__PURE__ */ self.console.debug(error)
+		return []
+	}
+}
+
+function katexCSS(document: Document): string {
+	const ret = []
+	for (const sheet of Array.from(document.styleSheets)) {
+		for (const { cssText } of cssRules(sheet)) {
+			if (cssText.includes("katex") || cssText.includes("KaTeX_")) {
+				ret.push(cssText)
+			}
+		}
+	}
+	return ret.join("\n")
+}
+
+function locate(
+	text: string,
+	index: number,
+	columns: number,
+): { readonly column: number, readonly rows: number } {
+	const
+		lineStart = Math.max(
+			text.lastIndexOf("\n", index - 1),
+			text.lastIndexOf("\r", index - 1),
+		) + 1,
+		column = index - lineStart,
+		lines = text.slice(lineStart).split("\n")
+	let rows = -Math.floor(column / columns)
+	for (const [idx, line] of lines.entries()) {
+		const segments = line.split("\r")
+		if (idx < lines.length - 1) {
+			rows += Math.max(1, Math.ceil(Math.max(...segments
+				.map(segment => segment.length)) / columns))
+		} else {
+			rows += Math.floor((segments[segments.length - 1] ?? "").length / columns)
+		}
+	}
+	return { column: column % columns, rows }
+}
+
+function decodePayload(payload: string): string | null {
+	try {
+		return new TextDecoder(DEFAULT_ENCODING, { fatal: true })
+			.decode(base64ToArrayBuffer(payload))
+	} catch (error) {
+		/* @__PURE__ */ self.console.debug(error)
+		return null
+	}
+}
+
+interface HTMLCell {
+	// Where the cell starts, including a style change before it
+	readonly start: number
+	readonly text: number
+}
+
+// Locates cells in the HTML of `SerializeAddon`, which writes each row as
+// `<div><span>...</span></div>` with style changes in between and text as is
+function htmlCells(
+	html: string,
+	terminal: Terminal,
+	onlySelection: boolean,
+	rows: ReadonlySet<number>,
+): Map<number, ReadonlyMap<number, HTMLCell>> {
+	const ret = new Map<number, ReadonlyMap<number, HTMLCell>>(),
+		{ buffer: { active }, cols } = terminal,
+		range = onlySelection
+			? terminal.getSelectionPosition()
+			// eslint-disable-next-line id-length
+			: { end: { x: cols, y: active.length - 1 }, start: { x: 0, y: 0 } }
+	if (!range) { return ret }
+	const { end, start } = range,
+		cell = active.getNullCell()
+	let offset = html.indexOf(HTML_ROW_START)
+	for (let row = start.y; row <= end.y; ++row) {
+		if (offset === -1 || !html.startsWith(HTML_ROW_START, offset)) { break }
+		offset += HTML_ROW_START.length
+		const line = active.getLine(row),
+			cells = new Map<number, HTMLCell>(),
+			to = row === end.y ? end.x : line?.length ?? 0
+		for (let col = row === start.y ? start.x : 0; col < to; ++col) {
+			if (!line?.getCell(col, cell)) { return ret }
+			// Placeholders after wide characters are not written
+			if (cell.getWidth() === 0) {
+				cells.set(col, { start: offset, text: offset })
+				continue
+			}
+			const chars = cell.getChars(),
+				text = chars === "" ? " " : chars,
+				cellStart = offset
+			HTML_STYLE_REGEX.lastIndex = offset
+			const style = HTML_STYLE_REGEX.exec(html)
+			if (style && html.startsWith(text, offset + style[0].length)) {
+				offset += style[0].length
+			}
+			if (!html.startsWith(text, offset)) { return ret }
+			cells.set(col, { start: cellStart, text: offset })
+			offset += text.length
+		}
+		if (!html.startsWith(HTML_ROW_END, offset)) { break }
+		cells.set(to, { start: offset, text: offset })
+		offset += HTML_ROW_END.length
+		if (rows.has(row)) { ret.set(row, cells) }
+	}
+	return ret
+}
+
+// Cells after replaced ones keep the last style change among them
+function lastStyle(
+	html: string,
+	cells: ReadonlyMap<number, HTMLCell>,
+	from: number,
+	to: number,
+): string {
+	for (let col = to - 1; col > from; --col) {
+		const cell = cells.get(col)
+		if (cell && cell.start !== cell.text) {
+			return html.slice(cell.start, cell.text)
+		}
+	}
+	return ""
+}
+
+export class MathSpanAddon implements ITerminalAddon {
+	static readonly #instances = new WeakMap<Terminal, MathSpanAddon>()
+	public readonly onParseError = new EventEmitterLite<readonly [
+		MathSpanAddon.Span,
+		LatexRenderCache.ParseError,
+	]>()
+
+	public readonly onEquation =
+		new EventEmitterLite<readonly [MathSpanAddon.Equation]>()
+
+	readonly #disposer = new Functions({ async: false, settled: true })
+	readonly #spans: MathSpanAddon.Span[] = []
+	readonly #equations: MathSpanAddon.Equation[] = []
+	readonly #alternateSpans = new WeakSet<MathSpanAddon.Span>()
+	readonly #overlays = new Map<MathSpanAddon.Span, HTMLElement>()
+	readonly #errors = new Map<MathSpanAddon.Span, HTMLElement>()
+	readonly #decorated = new WeakSet<MathSpanAddon.Span>()
+	readonly #fonts = new WeakMap<HTMLElement, string>()
+	// Resizing fires repeatedly while dragging, reflowing the buffer each time
+	readonly #relayout =
+		debounce(() => { this.relayout() }, MATH_RELAYOUT_WAIT * SI_PREFIX_SCALE)
+
+	readonly #context
+	readonly #delimiters
+	readonly #className
+	readonly #options
+	readonly #extensions
+	#terminal: Terminal | null = null
+	#carry = ""
+	#richOutput: MathSpanAddon.RichOutput | null = null
+	#columns = 0
+	#scale = 1
+
+	public constructor(
+		context: TerminalPlugin,
+		options?: Settings.Profile.Latex,
+	) {
+		this.#context = context
+		this.#delimiters = options ? enabledDelimiters(options) : []
+		this.#className =
+			new UnnamespacedID(DOMClasses2.Namespaced.MATH).namespaced(context)
+		this.#options = options ?? null
+		this.#extensions = Promise.all([
+			loadLatexEngine(options?.engine ?? "katex"),
+			loadLatexExtensions(options?.extensions ?? []),
+		]).catch((error: unknown) => { self.console.error(error) })
+	}
+
+	public get spans(): readonly MathSpanAddon.Span[] {
+		return this.#spans
+	}
+
+	public get equations(): readonly MathSpanAddon.Equation[] {
+		return this.#equations
+	}
+
+	public get scale(): number {
+		return this.#scale
+	}
+
+	public get macros(): LatexPreamble.Macros {
+		return latexMacros(
+			this.#context.latexPreamble.macros,
+			this.#options?.extensions ?? [],
+		)
+	}
+
+	// Applied to overlays rendered afterwards, such as on the next refresh
+	public set scale(value: number) {
+		this.#scale = value
+	}
+
+	public static get(terminal: Terminal): MathSpanAddon | null {
+		return MathSpanAddon.#instances.get(terminal) ?? null
+	}
+
+	public activate(terminal: Terminal): void {
+		this.#terminal = terminal
+		MathSpanAddon.#instances.set(terminal, this)
+		const refresh = (): void => { this.refresh() },
+			buffer = terminal.buffer.onBufferChange(refresh),
+			title = terminal.onTitleChange(refresh),
+			resize = terminal.onResize(() => { this.#relayout() })
+		this.#columns = terminal.cols
+		this.#disposer.push(
+			() => { MathSpanAddon.#instances.delete(terminal) },
+			() => { buffer.dispose() },
+			() => { title.dispose() },
+			() => { resize.dispose() },
+			() => { this.#relayout.cancel() },
+			() => { this.#overlays.clear() },
+			() => { this.#errors.clear() },
+			() => {
+				for (const { marker } of this.#spans.splice(0)) { marker.dispose() }
+			},
+			() => {
+				this.#richOutput?.marker.dispose()
+				this.#richOutput = null
+			},
+		)
+	}
+
+	public dispose(): void {
+		this.#disposer.call()
+	}
+
+	public async write(data: string): Promise<void> {
+		const terminal = this.#terminal
+		if (!terminal) { throw new Error("Math span addon is not loaded") }
+		return new Promise((resolve, reject) => {
+			const data0 = this.unicode(data)
+			// Track inside the callback so that later writes are not yet parsed
+			terminal.write(data0, () => {
+				try {
+					this.track(data0)
+					resolve()
+				} catch (error) {
+					reject(anyToError(error))
+				}
+			})
+		})
+	}
+
+	public registerRichOutput(): IDisposable {
+		const terminal = this.#terminal
+		if (!terminal) { throw new Error("Math span addon is not loaded") }
+		return terminal.parser.registerOscHandler(
+			RICH_OUTPUT_OSC_IDENTIFIER,
+			data => {
+				const [command, type, mode, payload] = data.split(";")
+				if (command === "begin") {
+					this.beginRichOutput(terminal, type ?? "", mode ?? "", payload ?? "")
+				} else if (command === "end") {
+					this.endRichOutput(terminal)
+				}
+				return true
+			},
+		)
+	}
+
+	public relayout(): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const { buffer: { active }, cols } = terminal,
+			columns = this.#columns
+		this.#columns = cols
+		if (cols === columns) { return }
+		const { baseY, cursorY } = active
+		for (const [index, span] of [...this.#spans.entries()]) {
+			// The alternate buffer is not reflowed
+			if (this.#alternateSpans.has(span)) { continue }
+			const position = this.locateSpan(active, span, columns, cols)
+			if (!position) { continue }
+			// Wrapped spans are decorated again to cover their new rows
+			if (position.column === span.column &&
+				position.line === span.marker.line &&
+				span.column + span.text.length <= Math.min(cols, columns)) {
+				continue
+			}
+			const marker = terminal.registerMarker(position.line - baseY - cursorY),
+				span0 = { ...span, column: position.column, marker }
+			this.#spans[index] = span0
+			this.watch(span0)
+			// Reported already when first tracked
+			this.check(span0, false)
+			// Also disposes the decorations at the old position
+			span.marker.dispose()
+			if (this.#decorated.has(span)) { this.decorate(span0) }
+		}
+	}
+
+	public reveal(equation: MathSpanAddon.Equation): boolean {
+		const terminal = this.#terminal
+		if (!terminal) { return false }
+		const { display, source, time } = equation,
+			span = this.#spans.find(span0 => !this.#alternateSpans.has(span0) &&
+				span0.display === display &&
+				span0.source === source &&
+				span0.time === time)
+		if (!span || span.marker.isDisposed) { return false }
+		terminal.scrollToLine(span.marker.line)
+		return true
+	}
+
+	public renderEquation(
+		element: HTMLElement,
+		equation: MathSpanAddon.Equation,
+	): void {
+		const { display, source } = equation,
+			options = this.renderOptions(display)
+		this.#extensions
+			.then(() => {
+				const { latexCache } = this.#context
+				latexCache.schedule(() => {
+					element.innerHTML = latexCache.renderToString(source, options)
+				})
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	public rendersMath(): boolean {
+		const terminal = this.#terminal,
+			options = this.#options
+		if (!terminal || !options) { return false }
+		return AlternateScreenAddon.get(terminal)
+			?.renders(options.alternateScreen) ?? true
+	}
+
+	public serialize(): readonly MathSpanAddon.Serial[] {
+		return this.#spans
+			.filter(span => !this.#alternateSpans.has(span))
+			.filter(({ marker: { isDisposed, line } }) => !isDisposed && line >= 0)
+			.map(({ column, display, marker: { line }, raw, source, text, time }) =>
+				({ column, display, line, raw, source, text, time }))
+	}
+
+	public restore(spans: readonly MathSpanAddon.Serial[]): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const { buffer: { active: { baseY, cursorY } } } = terminal
+		for (const { line, ...serial } of spans) {
+			const span = {
+				...serial,
+				marker: terminal.registerMarker(line - baseY - cursorY),
+			}
+			this.addSpan(span)
+			this.decorate(span)
+		}
+	}
+
+	public spanAt(column: number, line: number): MathSpanAddon.Span | null {
+		return this.#spans.find(span => {
+			if (this.isHidden(span)) { return false }
+			const { column: column0, marker: { line: line0 }, text } = span,
+				row = line - line0,
+				lineText = text.split("\n")[row]
+			if (row < 0 || lineText === void 0) { return false }
+			const start = row <= 0 ? column0 : 0
+			return column >= start && column < start + lineText.length
+		}) ?? null
+	}
+
+	public selectedSpans(): readonly MathSpanAddon.Span[] {
+		const range = this.#terminal?.getSelectionPosition()
+		if (!range) { return [] }
+		const { start, end } = range
+		return sortBy(this.#spans.filter(span => this.isActive(span))
+			.filter(({ column, marker: { line } }) =>
+				(line > start.y || (line === start.y && column >= start.x)) &&
+				(line < end.y || (line === end.y && column < end.x))), [
+			({ marker: { line } }): number => line,
+			({ column }): number => column,
+		])
+	}
+
+	public serializeSelection(format: MathSpanAddon.TextFormat): string {
+		const terminal = this.#terminal,
+			range = terminal?.getSelectionPosition()
+		if (!terminal || !range) { return "" }
+		const { buffer: { active }, cols } = terminal,
+			{ start, end } = range,
+			spans = this.selectedSpans()
+		let ret = ""
+		for (let row = start.y; row <= end.y; ++row) {
+			const line = active.getLine(row)
+			if (!line) { continue }
+			const to = row === end.y ? end.x : cols
+			let from = row === start.y ? start.x : 0,
+				text = ""
+			for (const span of spans) {
+				if (span.marker.line !== row || span.column < from) { continue }
+				text += line.translateToString(false, from, span.column)
+				text += MathSpanAddon.format(span, format)
+				from = span.column + span.text.length
+			}
+			text += line.translateToString(false, from, Math.max(from, to))
+			if (row < end.y && (active.getLine(row + 1)?.isWrapped ?? false)) {
+				ret += text
+			} else {
+				ret += `${text.trimEnd()}${row < end.y ? "\n" : ""}`
+			}
+		}
+		return ret
+	}
+
+	public async serializeAsHTML(
+		serialize: SerializeAddon,
+		options: MathSpanAddon.HTMLOptions,
+	): Promise<string> {
+		const katex0 = await katex,
+			{ math, onlySelection, standalone, title } = options,
+			terminal = this.#terminal,
+			ownerDocument = terminal?.element?.ownerDocument ?? self.document,
+			spans = onlySelection
+				? this.selectedSpans()
+				: sortBy(this.#spans.filter(span => this.isActive(span)), [
+					({ marker: { line } }): number => line,
+					({ column }): number => column,
+				]),
+			html = serialize.serializeAsHTML({
+				includeGlobalBackground: false,
+				onlySelection,
+			}),
+			cells = terminal
+				? htmlCells(
+					html,
+					terminal,
+					onlySelection,
+					new Set(spans.map(({ marker: { line } }) => line)),
+				)
+				: new Map<number, ReadonlyMap<number, HTMLCell>>()
+		let ret = "",
+			from = 0
+		for (const { column, display, marker, raw, source, text } of spans) {
+			const row = cells.get(marker.line),
+				start = row?.get(column),
+				end = row?.get(column + raw.length)
+			// Wrapped or unlocated math is kept as text
+			if (!text.trim() || !row || !start || !end || start.text < from) {
+				continue
+			}
+			ret += html.slice(from, start.text)
+			ret += katex0.renderToString(source, {
+				displayMode: display,
+				macros: { ...this.macros },
+				output: math === "MathML" ? "mathml" : "html",
+				throwOnError: false,
+			})
+			ret += lastStyle(html, row, column, column + raw.length)
+			from = end.start
+		}
+		ret += html.slice(from)
+		const css = [
+			math === "KaTeX" ? katexCSS(ownerDocument) : "",
+			standalone ? STANDALONE_CSS : "",
+		].filter(css0 => css0 !== "").join("\n")
+		if (standalone) {
+			return [
+				"<!DOCTYPE html>",
+				"<html>",
+				"<head>",
+				`<meta charset="${DEFAULT_ENCODING}">`,
+				`<title>${escape(title)}</title>`,
+				`<style>${css}</style>`,
+				"</head>",
+				`<body>${ret.replace(HTML_BODY_REGEX, "")}</body>`,
+				"</html>",
+			].join("\n")
+		}
+		return css === "" ? ret : `<style>${css}</style>${ret}`
+	}
+
+	protected beginRichOutput(
+		terminal: Terminal,
+		type: string,
+		mode: string,
+		payload: string,
+	): void {
+		this.#richOutput?.marker.dispose()
+		this.#richOutput = null
+		if (!(this.#options?.enabled ?? false) || !this.rendersMath() ||
+			!inSet(RICH_OUTPUT_TYPES, type)) { return }
+		const source = decodePayload(payload)
+		if (source === null) { return }
+		this.#richOutput = {
+			column: terminal.buffer.active.cursorX,
+			display: mode === "display",
+			marker: terminal.registerMarker(0),
+			source,
+			type,
+		}
+	}
+
+	protected endRichOutput(terminal: Terminal): void {
+		const output = this.#richOutput
+		this.#richOutput = null
+		if (!output) { return }
+		const { column, display, marker, source } = output,
+			{ buffer: { active }, cols } = terminal,
+			{ baseY, cursorX, cursorY } = active,
+			rows = baseY + cursorY - marker.line + 1
+		if (marker.isDisposed || rows <= 0) {
+			marker.dispose()
+			return
+		}
+		const lines = []
+		for (let row = 0; row < rows; ++row) {
+			lines.push(active.getLine(marker.line + row)?.translateToString(
+				row >= rows - 1,
+				row <= 0 ? column : 0,
+				row >= rows - 1 ? cursorX : cols,
+			) ?? "")
+		}
+		const span = {
+			column,
+			display,
+			marker,
+			raw: display ? `$$${source}$$` : `$${source}$`,
+			source,
+			text: lines.join("\n"),
+			time: Date.now(),
+		}
+		this.addSpan(span)
+		this.decorate(span)
+		this.announce(span)
+	}
+
+	protected addSpan(span: MathSpanAddon.Span): void {
+		this.#spans.push(span)
+		if (this.#terminal?.buffer.active.type === "alternate") {
+			this.#alternateSpans.add(span)
+		} else {
+			// Full-screen programs redraw the same equations over and over
+			this.record(span)
+		}
+		this.watch(span)
+		this.check(span)
+	}
+
+	protected record(span: MathSpanAddon.Span): void {
+		const { display, source, time } = span,
+			equation = { display, source, time }
+		this.#equations.push(equation)
+		this.#equations.splice(0, this.#equations.length - MAX_EQUATION_HISTORY)
+		this.onEquation.emit(equation)
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	protected watch(span: MathSpanAddon.Span): void {
+		span.marker.onDispose(() => {
+			const index = this.#spans.indexOf(span)
+			if (index !== -1) { this.#spans.splice(index, 1) }
+			this.#overlays.delete(span)
+			this.#errors.delete(span)
+		})
+	}
+
+	// eslint-disable-next-line @typescript-eslint/class-methods-use-this
+	protected locateSpan(
+		buffer: IBuffer,
+		span: MathSpanAddon.Span,
+		columns: number,
+		cols: number,
+	): { readonly column: number, readonly line: number } | null {
+		const { column, marker: { isDisposed, line }, text } = span
+		// Spans across explicit line breaks are laid out by the program
+		if (isDisposed || line < 0 || !text || text.includes("\n")) {
+			return null
+		}
+		let start = line
+		while (start > 0 && (buffer.getLine(start)?.isWrapped ?? false)) {
+			--start
+		}
+		const { text: logical } = readLogicalLine(buffer, start),
+			expected = (line - start) * columns + column
+		let offset = -1
+		for (let index = logical.indexOf(text);
+			index !== -1;
+			index = logical.indexOf(text, index + 1)) {
+			if (offset === -1 ||
+				Math.abs(index - expected) < Math.abs(offset - expected)) {
+				offset = index
+			}
+		}
+		if (offset === -1) { return null }
+		return {
+			column: offset % cols,
+			line: start + Math.floor(offset / cols),
+		}
+	}
+
+	protected isActive(span: MathSpanAddon.Span): boolean {
+		return (this.#terminal?.buffer.active.type === "alternate") ===
+			this.#alternateSpans.has(span)
+	}
+
+	protected isHidden(span: MathSpanAddon.Span): boolean {
+		return !this.isActive(span) || !this.rendersMath()
+	}
+
+	protected refresh(): void {
+		// Overlays of the normal buffer come back when full-screen programs exit
+		for (const overlays of [this.#overlays, this.#errors]) {
+			for (const [span, element] of overlays) {
+				element.classList.toggle("is-hidden", this.isHidden(span))
+			}
+		}
+	}
+
+	// eslint-disable-next-line @typescript-eslint/class-methods-use-this
+	protected decorationOptions(
+		terminal: Terminal,
+		span: MathSpanAddon.Span,
+	): IDecorationOptions {
+		const { column, marker, text } = span,
+			{ cols } = terminal,
+			lines = text.split("\n"),
+			// Soft-wrapped when wider than the remaining columns
+			rows = lines.length > 1
+				? lines.length
+				: Math.max(1, Math.ceil((column + text.length) / cols))
+		return {
+			height: rows,
+			layer: "top",
+			marker,
+			width: Math.max(1, rows > 1 ? cols - column : text.length),
+			// eslint-disable-next-line id-length
+			x: column,
+		}
+	}
+
+	protected colors(span: MathSpanAddon.Span): CellColors | null {
+		const terminal = this.#terminal
+		if (!terminal) { return null }
+		const { buffer: { alternate, normal }, options } = terminal,
+			{ column, marker: { line } } = span,
+			cell = (this.#alternateSpans.has(span) ? alternate : normal)
+				.getLine(line)?.getCell(column)
+		if (!cell) { return null }
+		// The theme merged from the global and profile settings
+		return cellColors(
+			cell,
+			options.theme ?? {},
+			options.drawBoldTextInBrightColors ?? true,
+		)
+	}
+
+	protected renderOptions(display: boolean): LatexRenderCache.Options {
+		const { fontFamily, fontSize } = this.#terminal?.options ?? {},
+			{ engine, extensions, fontScale } = this.#options ?? {}
+		return {
+			display,
+			engine: engine ?? "katex",
+			extensions: extensions ?? [],
+			font: fontFamily ?? "",
+			size: (fontSize ?? 0) * (fontScale ?? 1) * this.#scale,
+		}
+	}
+
+	protected decorate(span: MathSpanAddon.Span): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		this.#decorated.add(span)
+		terminal.registerDecoration(this.decorationOptions(terminal, span))
+			?.onRender(element => { this.renderOverlay(element, span) })
+	}
+
+	protected check(span: MathSpanAddon.Span, report = true): void {
+		const options = this.renderOptions(span.display)
+		// Shares the cache entry with the overlay rendered later
+		this.#extensions
+			.then(() => {
+				const { latexCache } = this.#context
+				latexCache.schedule(() => {
+					if (span.marker.isDisposed) { return }
+					const error = latexCache.parseError(span.source, options)
+					if (!error) { return }
+					this.markError(span, error)
+					if (!report) { return }
+					this.onParseError.emit(span, error)
+						.catch((error0: unknown) => { self.console.error(error0) })
+				})
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	protected markError(
+		span: MathSpanAddon.Span,
+		error: LatexRenderCache.ParseError,
+	): void {
+		const terminal = this.#terminal
+		if (!terminal) { return }
+		const { language: { value: i18n } } = this.#context,
+			{ message, token } = error
+		terminal.registerDecoration(this.decorationOptions(terminal, span))
+			?.onRender(element => {
+				this.#errors.set(span, element)
+				element.classList.add(`${this.#className}-error`)
+				element.classList.toggle("is-hidden", this.isHidden(span))
+				element.title = [
+					i18n.t("components.terminal.math-parse-error", {
+						interpolation: { escapeValue: false },
+						message,
+					}),
+					...token === null
+						? []
+						: [
+							i18n.t("components.terminal.math-parse-error-token", {
+								interpolation: { escapeValue: false },
+								token,
+							}),
+						],
+				].join("\n")
+			})
+	}
+
+	protected announce(span: MathSpanAddon.Span): void {
+		const terminal = this.#terminal
+		if (!terminal || !(terminal.options.screenReaderMode ?? false)) { return }
+		// Only exists in screen reader mode
+		const region =
+			terminal.element?.querySelector(".xterm-accessibility .live-region")
+		if (!region) { return }
+		const { display, source } = span,
+			{ language: { value: i18n } } = this.#context,
+			{ macros } = this
+		renderA11yString
+			.then(render => {
+				let math = source
+				try {
+					math = render(source, {
+						displayMode: display,
+						macros: { ...macros },
+					})
+				} catch (error) {
+					/* @__PURE__ */ self.console.debug(error)
+				}
+				region.append(` ${i18n.t("components.terminal.math-announcement", {
+					interpolation: { escapeValue: false },
+					math,
+				})} `)
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	protected renderOverlay(
+		element: HTMLElement,
+		span: MathSpanAddon.Span,
+	): void {
+		this.#overlays.set(span, element)
+		element.classList.toggle("is-hidden", this.isHidden(span))
+		const colors = this.colors(span)
+		if (colors) {
+			// Explicit `\color` in the equation still takes precedence
+			Object.assign(element.style, {
+				backgroundColor: colors.background,
+				color: colors.foreground,
+			})
+		}
+		const { display, source } = span,
+			fontScale = (this.#options?.fontScale ?? 1) * this.#scale,
+			options = this.renderOptions(display),
+			font = `${options.size}px ${options.font}`
+		// Outside of the viewport, rendered when scrolled into view instead
+		if ((element.classList.contains(this.#className) &&
+			this.#fonts.get(element) === font) ||
+			element.style.display === "none") { return }
+		element.classList.add(this.#className)
+		this.#fonts.set(element, font)
+		element.style.setProperty("--terminal-math-scale", String(fontScale))
+		// Extensions must register their commands before the first render
+		this.#extensions
+			.then(() => {
+				const { latexCache } = this.#context
+				latexCache.schedule(() => {
+					element.innerHTML = latexCache.renderToString(source, options)
+					MathSpanAddon.fit(element)
+				})
+			})
+			.catch((error: unknown) => { self.console.error(error) })
+	}
+
+	protected unicode(data: string): string {
+		const terminal = this.#terminal,
+			delimiters = this.#delimiters
+		if (!terminal || this.#options?.mode !== "unicode" ||
+			delimiters.length <= 0 ||
+			terminal.buffer.active.type !== "normal") { return data }
+		let ret = "",
+			last = 0
+		/*
+		 * Math split across writes is not seen here,
+		 * and is rendered as an overlay by `track` instead
+		 */
+		for (const { end, source, start } of scanLatex(
+			data,
+			delimiters,
+			latexGuard(this.#context.settings.value.latexGuards),
+		)) {
+			// Escape sequences inside are not text
+			if (source.includes("\u001b")) { continue }
+			const text = latexToUnicode(source)
+			// Too complex for text, rendered as an overlay by `track` instead
+			if (text === null) { continue }
+			ret += `${data.slice(last, start)}${text}`
+			last = end
+		}
+		return `${ret}${data.slice(last)}`
+	}
+
+	protected track(data: string): void {
+		const terminal = this.#terminal,
+			delimiters = this.#delimiters
+		if (!terminal || delimiters.length <= 0 || !this.rendersMath()) { return }
+		const text = `${this.#carry}${data.replace(ESCAPE_SEQUENCE_REGEX, "")}`,
+			matches = scanLatex(
+				text,
+				delimiters,
+				latexGuard(this.#context.settings.value.latexGuards),
+			),
+			{ buffer: { active }, cols } = terminal
+		for (const { display, end, source, start } of matches) {
+			const { column, rows } = locate(text, start, cols),
+				raw = text.slice(start, end),
+				marker = terminal.registerMarker(-rows),
+				span = {
+					column,
+					display,
+					marker,
+					raw,
+					source,
+					text: active.getLine(marker.line)
+						?.translateToString(false, column, column + raw.length) ?? "",
+					time: Date.now(),
+				}
+			this.addSpan(span)
+			this.decorate(span)
+			this.announce(span)
+		}
+		this.#carry = text.slice(matches[matches.length - 1]?.end ?? 0)
+			.slice(-MAX_MATH_SPAN_CARRY)
+	}
+}
+export namespace MathSpanAddon {
+	export interface Span {
+		readonly marker: IMarker
+		readonly column: number
+		readonly text: string
+		readonly raw: string
+		readonly source: string
+		readonly display: boolean
+		readonly time: number
+	}
+	export interface Equation {
+		readonly source: string
+		readonly display: boolean
+		readonly time: number
+	}
+	export interface Serial extends Omit<Span, "marker"> {
+		readonly line: number
+	}
+	export function fixSerial(self0: unknown): Fixed<readonly Serial[]> {
+		if (!Array.isArray(self0)) { return markFixed(self0, []) }
+		return markFixed(self0, self0.flatMap((span: unknown) => {
+			const unc = launderUnchecked<Serial>(span),
+				{ column, display, line, raw, source, text, time } = unc
+			if (typeof column !== "number" || typeof display !== "boolean" ||
+				typeof line !== "number" || typeof raw !== "string" ||
+				typeof source !== "string" || typeof text !== "string" ||
+				typeof time !== "number") { return [] }
+			return [{ column, display, line, raw, source, text, time }]
+		}))
+	}
+	export interface RichOutput {
+		readonly marker: IMarker
+		readonly column: number
+		readonly type: typeof RICH_OUTPUT_TYPES[number]
+		readonly source: string
+		readonly display: boolean
+	}
+	export function fit(element: HTMLElement): void {
+		// Scaled down instead of overlapping text beyond its columns
+		element.style.setProperty("--terminal-math-fit", "1")
+		const { clientWidth, scrollWidth } = element
+		if (clientWidth <= 0 || scrollWidth <= clientWidth) { return }
+		element.style
+			.setProperty("--terminal-math-fit", String(clientWidth / scrollWidth))
+	}
+	export const TEXT_FORMATS = deepFreeze(["plain", "markdown"])
+	export type TextFormat = typeof TEXT_FORMATS[number]
+	export interface HTMLOptions {
+		readonly math: Settings.HTMLExportMath
+		readonly onlySelection: boolean
+		readonly standalone: boolean
+		readonly title: string
+	}
+	export const COPY_FORMATS = deepFreeze([...TEXT_FORMATS, "HTML"])
+	export type CopyFormat = typeof COPY_FORMATS[number]
+	// eslint-disable-next-line @typescript-eslint/consistent-return
+	export function format(span: Span, format0: TextFormat): string {
+		const { display, raw, source } = span
+		switch (format0) {
+			case "plain":
+				return raw
+			case "markdown":
+				return display ? `\n$$\n${source.trim()}\n$$\n` : `$${source.trim()}$`
+			// No default
+		}
+	}
+}
@@ -19,7 +19,102 @@ import {
 import type { Pseudoterminal } from "./pseudoterminal.js"
 import type { Settings } from "../settings-data.js"
 
+export const LATEX_DELIMITER_PRESETS = deepFreeze({
+	dollar: [
+		{ display: true, left: "$$", right: "$$" },
+		{ display: false, left: "$", right: "$" },
+	],
+	markdown: [
+		{ display: true, left: "```math", right: "```" },
+		{ display: true, left: "$$", right: "$$" },
+		{ display: false, left: "$`", right: "`$" },
+		{ display: false, left: "$", right: "$" },
+	],
+	pandoc: [
+		{ display: true, left: "$$", right: "$$" },
+		{ display: false, left: "$", right: "$" },
+		{ display: true, left: "\\\\[", right: "\\\\]" },
+		{ display: false, left: "\\\\(", right: "\\\\)" },
+	],
+	tex: [
+		{ display: true, left: "$$", right: "$$" },
+		{ display: false, left: "$", right: "$" },
+		{ display: true, left: "\\[", right: "\\]" },
+		{ display: false, left: "\\(", right: "\\)" },
+	],
+}) satisfies Readonly<Record<
+	string,
+	readonly Settings.Profile.Latex.Delimiter[]
+>>
+export const LATEX_DELIMITER_PRESET_ORDERED_KEYS = deepFreeze([
+	"dollar",
+	"tex",
+	"markdown",
+	"pandoc",
+]) satisfies readonly (keyof typeof LATEX_DELIMITER_PRESETS)[]
+
+// Startup code of math REPLs printing results as `$$...$$` to be rendered
+const
+	SYMPY_INIT = [
+		"from sympy import *",
+		"init_printing(",
+		"    use_latex=False,",
+		"    pretty_printer=lambda expr, **_: \"$$\" + latex(expr) + \"$$\",",
+		")",
+	].join("\n"),
+	// Run by the Sage shell, which has already imported Sage and preparses
+	SAGE_INIT = [
+		"get_ipython().display_formatter.formatters[\"text/plain\"].for_type(",
+		"    SageObject,",
+		"    lambda obj, printer, cycle:",
+		"        printer.text(\"$$\" + latex(obj) + \"$$\"),",
+		")",
+	].join("\n"),
+	// Values without LaTeX, such as most numbers, are shown as usual
+	JULIA_INIT = [
+		"import REPL",
+		"function Base.display(repl::REPL.REPLDisplay, value)",
+		"    showable(\"text/latex\", value) ||",
+		"        return display(repl, \"text/plain\", value)",
+		"    latex = strip(repr(\"text/latex\", value), ['\\$', ' ', '\\n'])",
+		"    println(\"\\$\\$\", latex, \"\\$\\$\")",
+		"end",
+	].join("\n"),
+	// Overrides how symbolic variables are displayed
+	OCTAVE_INIT = [
+		"pkg load symbolic",
+		"laterm = fullfile(tempdir(), \"laterm\");",
+		"file = fullfile(laterm, \"@sym\", \"display.m\");",
+		"if !exist(laterm, \"dir\") mkdir(laterm); endif",
+		"if !exist(fileparts(file), \"dir\") mkdir(fileparts(file)); endif",
+		"if !exist(file, \"file\")",
+		"  fid = fopen(file, \"w\");",
+		"  fputs(fid, \"function display (x)\\n\");",
+		"  fputs(fid, \"  printf (\\\"$$%s$$\\\\n\\\", latex (x));\\n\");",
+		"  fputs(fid, \"end\\n\");",
+		"  fclose(fid);",
+		"endif",
+		"addpath(laterm);",
+		"clear fid file laterm",
+	].join("\n"),
+	MAXIMA_INIT =
+		"load(\"alt-display.mac\")$ set_alt_display(2, tex_display)$"
+
 export const
+	DEFAULT_LATEX_OPTIONS: Settings.Profile.Latex = deepFreeze({
+		alternateScreen: "pager",
+		debugLogging: false,
+		delimiters: LATEX_DELIMITER_PRESETS.dollar,
+		display: true,
+		enabled: true,
+		engine: "katex",
+		extensions: [],
+		fontScale: 1,
+		heuristics: true,
+		inline: true,
+		markdown: false,
+		mode: "overlay",
+	}),
 	DEFAULT_LINK_HANDLER: ILinkHandler = deepFreeze({
 		activate(event, text, _2) { openExternal(activeSelf(event), text) },
 	}),
@@ -69,6 +164,14 @@ export interface ProfilePresets0 {
 	readonly shIntegrated: Settings.Profile.Integrated
 	readonly wslIntegrated: Settings.Profile.Integrated
 	readonly zshIntegrated: Settings.Profile.Integrated
+
+	// `pythonExecutable` runs the pseudoterminal, not the REPL, as for shells
+	readonly ipythonIntegrated: Settings.Profile.Integrated
+	readonly juliaIntegrated: Settings.Profile.Integrated
+	readonly maximaIntegrated: Settings.Profile.Integrated
+	readonly octaveIntegrated: Settings.Profile.Integrated
+	readonly sageIntegrated: Settings.Profile.Integrated
+	readonly sympyIntegrated: Settings.Profile.Integrated
 }
 type ExternalDefaults = Readonly<
 Record<`${Pseudoterminal.SupportedPlatforms[number]
@@ -84,6 +187,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	bashIntegrated: {
 		args: [],
 		executable: "/bin/bash",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -97,6 +201,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	cmdExternal: {
 		args: [],
 		executable: WINDOWS_CMD_PATH,
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		restoreHistory: false,
@@ -108,6 +213,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	cmdIntegrated: {
 		args: [],
 		executable: WINDOWS_CMD_PATH,
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -121,6 +227,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	dashIntegrated: {
 		args: [],
 		executable: "/bin/dash",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -132,6 +239,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 		useWin32Conhost: true,
 	},
 	developerConsole: {
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		restoreHistory: false,
 		rightClickAction: "copyPaste",
@@ -140,6 +248,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 		type: "developerConsole",
 	},
 	empty: {
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		restoreHistory: false,
 		rightClickAction: "copyPaste",
@@ -150,6 +259,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	gitBashIntegrated: {
 		args: [],
 		executable: "C:\\Program Files\\Git\\bin\\bash.exe",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -163,6 +273,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	gnomeTerminalExternal: {
 		args: [],
 		executable: "gnome-terminal",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { linux: true },
 		restoreHistory: false,
@@ -175,6 +286,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 		args: ["\"$PWD\""],
 		executable:
 			"/Applications/iTerm.app/Contents/MacOS/iTerm2",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true },
 		restoreHistory: false,
@@ -183,9 +295,38 @@ const PROFILE_PRESETS0 = deepFreeze({
 		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
 		type: "external",
 	},
+	ipythonIntegrated: {
+		args: ["-i", "-c", SYMPY_INIT],
+		executable: "ipython",
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true, win32: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
+	juliaIntegrated: {
+		args: ["-i", "-e", JULIA_INIT],
+		executable: "julia",
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true, win32: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
 	konsoleExternal: {
 		args: [],
 		executable: "konsole",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { linux: true },
 		restoreHistory: false,
@@ -194,9 +335,38 @@ const PROFILE_PRESETS0 = deepFreeze({
 		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
 		type: "external",
 	},
+	maximaIntegrated: {
+		args: ["--run-string", MAXIMA_INIT],
+		executable: "maxima",
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true, win32: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
+	octaveIntegrated: {
+		args: ["--persist", "--eval", OCTAVE_INIT],
+		executable: "octave",
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true, win32: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
 	powershellExternal: {
 		args: [],
 		executable: "powershell",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		restoreHistory: false,
@@ -208,6 +378,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	powershellIntegrated: {
 		args: [],
 		executable: "powershell",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -221,6 +392,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	pwshExternal: {
 		args: [],
 		executable: "pwsh",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true, win32: true },
 		restoreHistory: false,
@@ -232,6 +404,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	pwshIntegrated: {
 		args: [],
 		executable: "pwsh",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true, win32: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -242,9 +415,25 @@ const PROFILE_PRESETS0 = deepFreeze({
 		type: "integrated",
 		useWin32Conhost: true,
 	},
+	sageIntegrated: {
+		// Options unknown to `sage` are passed on to its IPython
+		args: ["-q", `--InteractiveShellApp.exec_lines=${SAGE_INIT}`],
+		executable: "sage",
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
 	shIntegrated: {
 		args: [],
 		executable: "/bin/sh",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -255,10 +444,25 @@ const PROFILE_PRESETS0 = deepFreeze({
 		type: "integrated",
 		useWin32Conhost: true,
 	},
+	sympyIntegrated: {
+		args: ["-i", "-c", SYMPY_INIT],
+		executable: DEFAULT_PYTHON_EXECUTABLE,
+		latex: DEFAULT_LATEX_OPTIONS,
+		name: "",
+		platforms: { darwin: true, linux: true, win32: true },
+		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
+		restoreHistory: false,
+		rightClickAction: "copyPaste",
+		successExitCodes: DEFAULT_SUCCESS_EXIT_CODES,
+		terminalOptions: DEFAULT_TERMINAL_OPTIONS,
+		type: "integrated",
+		useWin32Conhost: true,
+	},
 	terminalMacOSExternal: {
 		args: ["\"$PWD\""],
 		executable:
 			"/System/Applications/Utilities/Terminal.app/Contents/macOS/Terminal",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true },
 		restoreHistory: false,
@@ -270,6 +474,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	wslIntegrated: {
 		args: [],
 		executable: "C:\\Windows\\System32\\wsl.exe",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -283,6 +488,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	wtExternal: {
 		args: [],
 		executable: "wt",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { win32: true },
 		restoreHistory: false,
@@ -294,6 +500,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	xtermExternal: {
 		args: [],
 		executable: "xterm",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true },
 		restoreHistory: false,
@@ -305,6 +512,7 @@ const PROFILE_PRESETS0 = deepFreeze({
 	zshIntegrated: {
 		args: [],
 		executable: "/bin/zsh",
+		latex: DEFAULT_LATEX_OPTIONS,
 		name: "",
 		platforms: { darwin: true, linux: true },
 		pythonExecutable: DEFAULT_PYTHON_EXECUTABLE,
@@ -367,6 +575,13 @@ export type ProfilePresetKeys = readonly [
 	"wslIntegrated",
 	"zshIntegrated",
 
+	"ipythonIntegrated",
+	"juliaIntegrated",
+	"maximaIntegrated",
+	"octaveIntegrated",
+	"sageIntegrated",
+	"sympyIntegrated",
+
 	"darwinExternalDefault",
 	"linuxExternalDefault",
 	"win32ExternalDefault",
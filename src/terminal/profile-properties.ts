@@ -79,6 +79,7 @@ export const PROFILE_PROPERTIES: {
 			const
 				{
 					args,
+					latex,
 					platforms,
 					useWin32Conhost,
 					executable,
@@ -91,6 +92,7 @@ export const PROFILE_PROPERTIES: {
 					args,
 					cwd: options?.cwd,
 					executable,
+					latex,
 					pythonExecutable: pythonExecutable || void 0,
 					terminal: options?.terminal,
 					useWin32Conhost,
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test"
+import { ReplayPseudoterminal } from "./pseudoterminal.js"
+import { deepStrictEqual } from "node:assert/strict"
+
+// One JSON entry per line, as written by `TerminalWriteLogger`
+function log(...entries: readonly unknown[]): string {
+	return entries.map(entry => JSON.stringify(entry)).join("\n")
+}
+
+describe("ReplayPseudoterminal.parseLog", () => {
+	it("keeps the writes of a session in order", () => {
+		deepStrictEqual(ReplayPseudoterminal.parseLog(log(
+			{ message: "Logging started", time: 0, type: "message" },
+			{ data: "$ echo '$x^2$'\r\n", time: 3.25, type: "write" },
+			{ message: "Unknown macro", source: "\\y", time: 4, type: "parse-error" },
+			{ data: "$x^2$\r\n", time: 12.5, type: "write" },
+		)), [
+			{ data: "$ echo '$x^2$'\r\n", time: 3.25 },
+			{ data: "$x^2$\r\n", time: 12.5 },
+		])
+	})
+
+	it("reads logs with Windows line endings", () => {
+		deepStrictEqual(
+			ReplayPseudoterminal.parseLog(`${log(
+				{ data: "a", time: 1, type: "write" },
+				{ data: "b", time: 2, type: "write" },
+			).replace(/\n/gu, "\r\n")}\r\n`),
+			[{ data: "a", time: 1 }, { data: "b", time: 2 }],
+		)
+	})
+
+	it("replays what is left of truncated or edited logs", () => {
+		const write = log({ data: "a", time: 1, type: "write" })
+		deepStrictEqual(ReplayPseudoterminal.parseLog([
+			write.slice(0, -1),
+			"",
+			"not JSON",
+			"null",
+			log({ data: "a", time: "1", type: "write" }),
+			log({ data: 1, time: 1, type: "write" }),
+			write,
+		].join("\n")), [{ data: "a", time: 1 }])
+	})
+})
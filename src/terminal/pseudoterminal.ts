@@ -5,16 +5,21 @@ import {
 	TerminalTextArea,
 	normalizeText,
 	writePromise as tWritePromise,
+	terminalWriteLogDirectory,
 } from "./util.js"
 import {
 	DEFAULT_ENCODING,
 	DEFAULT_PYTHONIOENCODING,
 	EXIT_SUCCESS,
 	MAX_LOCK_PENDING,
+	REPLAY_SPEEDS,
+	RICH_OUTPUT_ENVIRONMENT_VARIABLE,
+	RICH_OUTPUT_OSC_IDENTIFIER,
 	TERMINAL_EXIT_CLEANUP_WAIT,
 	TERMINAL_RESIZER_WATCHDOG_WAIT,
 	WINDOWS_CONHOST_PATH,
 } from "../magic.js"
+import { FileSystemAdapter, base64ToArrayBuffer } from "obsidian"
 import {
 	Functions,
 	Platform,
@@ -32,6 +37,7 @@ import {
 	dynamicRequire,
 	getKeyModifiers,
 	inSet,
+	launderUnchecked,
 	lazyInit,
 	logFormat,
 	multireplace,
@@ -53,14 +59,17 @@ import { spawnPromise, writePromise } from "../util.js"
 import AsyncLock from "async-lock"
 import type { AsyncOrSync } from "ts-essentials"
 import { BUNDLE } from "../import.js"
+import { DEFAULT_LATEX_OPTIONS } from "./profile-presets.js"
 import type { DeveloperConsoleContext } from "obsidian-terminal"
 import { DisposerAddon } from "./emulator-addons.js"
 import type { FileResult } from "tmp-promise"
 import type { Log } from "../patch.js"
+import { MathSpanAddon } from "./math-spans.js"
 import type {
 	ChildProcessWithoutNullStreams as PipedChildProcess,
 } from "node:child_process"
 import type { Position } from "source-map"
+import type { Settings } from "../settings-data.js"
 import type { TerminalPlugin } from "../main.js"
 import ansi from "ansi-escape-sequences"
 import unixPseudoterminalPy from "./unix_pseudoterminal.py"
@@ -94,12 +103,53 @@ async function clearTerminal(terminal: Terminal, keep = false): Promise<void> {
 	)
 }
 
+function logLatex(
+	context: TerminalPlugin,
+	mathSpans: MathSpanAddon | null,
+	options: Settings.Profile.Latex,
+): () => void {
+	if (!mathSpans || !options.debugLogging) { return noop }
+	const log = (message: string): void => {
+			context.earlyPatch.value.log.logger
+				.emit({ data: [`[LaTerM] ${message}`], type: "debug" })
+				.catch(noop satisfies () => unknown as () => unknown)
+		},
+		// Not for the developer console, which would log its own logs again
+		disposer = new Functions(
+			{ async: false, settled: true },
+			mathSpans.onEquation.listen(({ display, source }) => {
+				log(`Rendering ${display ? "display" : "inline"} math: ${source}`)
+			}),
+			mathSpans.onParseError.listen(({ source }, { message }) => {
+				log(`Failed to parse math: ${source}: ${message}`)
+			}),
+		)
+	return () => { disposer.call() }
+}
+
+// How pseudoterminals write program output, rendering the math in it
+export async function writeOutput(
+	terminal: Terminal,
+	data: Uint8Array | string,
+): Promise<void> {
+	const mathSpans = MathSpanAddon.get(terminal)
+	return typeof data === "string" && mathSpans
+		? mathSpans.write(data)
+		: tWritePromise(terminal, data)
+}
+
 export interface Pseudoterminal {
 	readonly shell?: Promise<PipedChildProcess> | undefined
 	readonly kill: () => AsyncOrSync<void>
 	readonly onExit: Promise<NodeJS.Signals | number>
 	readonly pipe: (terminal: Terminal) => AsyncOrSync<void>
-	readonly resize?: (columns: number, rows: number) => AsyncOrSync<void>
+	// Pixel sizes are `0` if unknown
+	readonly resize?: (
+		columns: number,
+		rows: number,
+		width?: number,
+		height?: number,
+	) => AsyncOrSync<void>
 }
 
 export class RefPsuedoterminal<T extends Pseudoterminal,
@@ -145,9 +195,14 @@ export class RefPsuedoterminal<T extends Pseudoterminal,
 		return this.delegate.pipe(terminal)
 	}
 
-	public resize(columns: number, rows: number): AsyncOrSync<void> {
+	public resize(
+		columns: number,
+		rows: number,
+		width?: number,
+		height?: number,
+	): AsyncOrSync<void> {
 		const { delegate } = this
-		return delegate.resize?.(columns, rows)
+		return delegate.resize?.(columns, rows, width, height)
 	}
 }
 
@@ -222,6 +277,156 @@ export class TextPseudoterminal
 	}
 }
 
+export class ReplayPseudoterminal
+	extends PseudoPseudoterminal
+	implements Pseudoterminal {
+	#paused = false
+	#stepped = false
+	#speed = REPLAY_SPEEDS.indexOf(1)
+	#notify: () => void = noop
+
+	public constructor(
+		protected readonly context: TerminalPlugin,
+		protected readonly path: string,
+		protected readonly latex = DEFAULT_LATEX_OPTIONS,
+	) {
+		super()
+		this.onExit.catch(noop satisfies () => unknown as () => unknown)
+			.finally(() => { this.#notify() })
+	}
+
+	public get speed(): number {
+		return REPLAY_SPEEDS[this.#speed] ?? 1
+	}
+
+	public override async pipe(terminal: Terminal): Promise<void> {
+		await super.pipe(terminal)
+		const { context, latex, path } = this,
+			{ language: { value: i18n } } = context,
+			chunks = ReplayPseudoterminal
+				.parseLog(await context.app.vault.adapter.read(path)),
+			mathSpans = MathSpanAddon.get(terminal),
+			richOutput = mathSpans?.registerRichOutput(),
+			unlog = logLatex(context, mathSpans, latex),
+			input = terminal.onData(data => { this.control(data) })
+		terminal.loadAddon(new DisposerAddon(
+			() => { richOutput?.dispose() },
+			() => { unlog() },
+			() => { input.dispose() },
+			() => { this.#notify() },
+		))
+		await clearTerminal(terminal, true)
+		await tWritePromise(terminal, i18n.t("components.terminal.replay-help"))
+		this.play(terminal, chunks).catch((error: unknown) => {
+			activeSelf(terminal.element).console.error(error)
+		})
+	}
+
+	protected async play(
+		terminal: Terminal,
+		chunks: readonly ReplayPseudoterminal.Chunk[],
+	): Promise<void> {
+		let previous = chunks[0]?.time ?? 0
+		for (const { data, time } of chunks) {
+			// Keep the original chunk boundaries and the delays between them
+			for (;;) {
+				if (this.exited || !this.terminals.includes(terminal)) { return }
+				if (this.#stepped) {
+					this.#stepped = false
+					break
+				}
+				// eslint-disable-next-line no-await-in-loop
+				if (await this.wait(this.#paused
+					? null
+					: Math.max(time - previous, 0) / this.speed)) { break }
+			}
+			previous = time
+			// eslint-disable-next-line no-await-in-loop
+			await writeOutput(terminal, data)
+		}
+	}
+
+	protected async wait(delay: number | null): Promise<boolean> {
+		return new Promise(resolve => {
+			const id = delay === null
+				? null
+				: self.setTimeout(() => { resolve(true) }, delay)
+			this.#notify = (): void => {
+				if (id !== null) { self.clearTimeout(id) }
+				resolve(false)
+			}
+		})
+	}
+
+	protected control(data: string): void {
+		const { context, context: { language: { value: i18n }, settings } } = this
+		switch (data) {
+			case " ":
+				this.#paused = !this.#paused
+				break
+			case ".":
+			case "n":
+				this.#stepped = true
+				break
+			case "+":
+			case "=":
+				this.#speed = Math.min(this.#speed + 1, REPLAY_SPEEDS.length - 1)
+				break
+			case "-":
+			case "_":
+				this.#speed = Math.max(this.#speed - 1, 0)
+				break
+			case "0":
+				this.#speed = REPLAY_SPEEDS.indexOf(1)
+				break
+			default:
+				return
+		}
+		this.#notify()
+		notice2(
+			() => i18n.t(this.#paused
+				? "notices.replay-paused"
+				: "notices.replay-playing", {
+				interpolation: { escapeValue: false },
+				speed: this.speed,
+			}),
+			settings.value.noticeTimeout,
+			context,
+		)
+	}
+}
+export namespace ReplayPseudoterminal {
+	export interface Chunk {
+		readonly time: number
+		readonly data: Uint8Array | string
+	}
+	function parseEntry(line: string): unknown {
+		try {
+			return JSON.parse(line)
+		} catch (error) {
+			/* @__PURE__ */ self.console.debug(error)
+			return null
+		}
+	}
+	export function parseLog(text: string): readonly Chunk[] {
+		return text.split("\n").flatMap((line): readonly Chunk[] => {
+			if (!line.trim()) { return [] }
+			const { base64, data, time, type } = launderUnchecked<{
+				readonly type: unknown
+				readonly time: unknown
+				readonly data: unknown
+				readonly base64: unknown
+			}>(parseEntry(line))
+			if (type !== "write" || typeof time !== "number") { return [] }
+			if (typeof data === "string") { return [{ data, time }] }
+			if (typeof base64 === "string") {
+				return [{ data: new Uint8Array(base64ToArrayBuffer(base64)), time }]
+			}
+			return []
+		})
+	}
+}
+
 export class DeveloperConsolePseudoterminal
 	extends PseudoPseudoterminal
 	implements Pseudoterminal {
@@ -605,11 +810,13 @@ export class DeveloperConsolePseudoterminal
 					const { buffer: { active } } = terminal,
 						editor = this.#editors.get(terminal),
 						{ baseY } = active,
-						startBaseY = editor?.startYMarker?.line ?? baseY + active.cursorY
-					await tWritePromise(terminal, `${ansi.cursor.position(
-						1 + (startBaseY - baseY),
-						1,
-					)}${ansi.erase.display()}${text}`)
+						startBaseY = editor?.startYMarker?.line ?? baseY + active.cursorY,
+						data = `${ansi.cursor.position(
+							1 + (startBaseY - baseY),
+							1,
+						)}${ansi.erase.display()}${text}`
+					// Only log output is tracked, never the input area of `syncBuffer`
+					await writeOutput(terminal, data)
 					this.#setEditor(terminal, {
 						close() { this.startYMarker?.dispose() },
 						renderEndY: 0,
@@ -664,6 +871,7 @@ export interface ShellPseudoterminalArguments {
 	readonly executable: string
 	readonly cwd?: URL | string | undefined
 	readonly args?: readonly string[] | undefined
+	readonly latex?: Settings.Profile.Latex | undefined
 	readonly terminal?: string | undefined
 	readonly pythonExecutable?: string | undefined
 	readonly useWin32Conhost?: boolean | undefined
@@ -674,6 +882,7 @@ class WindowsPseudoterminal implements Pseudoterminal {
 	public readonly conhost
 	public readonly onExit
 	protected readonly resizer
+	protected readonly latex
 
 	public constructor(
 		protected readonly context: TerminalPlugin,
@@ -681,11 +890,13 @@ class WindowsPseudoterminal implements Pseudoterminal {
 			args,
 			cwd,
 			executable,
+			latex,
 			useWin32Conhost,
 			pythonExecutable,
 		}: ShellPseudoterminalArguments,
 	) {
 		this.conhost = useWin32Conhost ?? false
+		this.latex = latex ?? DEFAULT_LATEX_OPTIONS
 		const { conhost } = this,
 			{ language: { value: i18n }, settings } = context,
 			resizerInitial = (async (): Promise<PipedChildProcess | null> => {
@@ -734,8 +945,13 @@ class WindowsPseudoterminal implements Pseudoterminal {
 			]> => {
 				const resizer = await resizerInitial.catch(() => null)
 				try {
-					const [childProcess2, fsPromises2, tmpPromise2] =
-						await Promise.all([childProcess, fsPromises, tmpPromise]),
+					const [childProcess2, fsPromises2, process2, tmpPromise2] =
+						await Promise.all([
+							childProcess,
+							fsPromises,
+							process,
+							tmpPromise,
+						]),
 						inOutTmp = await tmpPromise2.file({
 							discardDescriptor: true,
 							postfix: ".bat",
@@ -772,6 +988,11 @@ class WindowsPseudoterminal implements Pseudoterminal {
 								cmd.slice(1),
 								{
 									cwd,
+									env: {
+										...process2.env,
+										[RICH_OUTPUT_ENVIRONMENT_VARIABLE]:
+											RICH_OUTPUT_OSC_IDENTIFIER.toString(),
+									},
 									shell: !conhost,
 									stdio: ["pipe", "pipe", "pipe"],
 									windowsHide: !resizer,
@@ -889,47 +1110,47 @@ class WindowsPseudoterminal implements Pseudoterminal {
 
 	public async pipe(terminal: Terminal): Promise<void> {
 		let init = !this.conhost
-		const shell = await this.shell
-		
-		// Import LaTeRM addon and terminal write logger
-		const { LatexAddon } = await import("laterm")
-		const { TerminalWriteLogger } = await import("./terminal-write-logger.js")
-		const { settings } = this.context
-		const vaultPath = (this.context.app.vault.adapter as any).basePath || ""
-
-		// Create and load LaTeRM addon
-		const latexConfig: any = {
-			debugLogging: false  // Keep LaTeX debugging off by default
-		}
-		// Uncomment to enable LaTeX debug logging when terminal logging is on:
-		// if (settings.value.enableTerminalWriteLogging) {
-		//     latexConfig.debugLogging = true
-		//     latexConfig.onLog = (msg: string) => console.log(`[LaTeRM] ${msg}`)
-		// }
-		const latexAddon = new LatexAddon(latexConfig)
-		terminal.loadAddon(latexAddon)
+		const { context, latex } = this,
+			{ app: { vault: { adapter } }, settings } = context,
+			[shell, writeLogger] = await Promise.all([
+				this.shell,
+				import("./terminal-write-logger.js"),
+			]),
+			mathSpans = MathSpanAddon.get(terminal),
+			richOutput = mathSpans?.registerRichOutput(),
+			unlog = logLatex(context, mathSpans, latex),
+			// Logs the processed output
+			logger = new writeLogger.TerminalWriteLogger(
+				context,
+				terminal,
+				settings.value.enableTerminalWriteLogging,
+				adapter instanceof FileSystemAdapter ? adapter.getBasePath() : "",
+				terminalWriteLogDirectory(context),
+				settings.value.terminalWriteLogFormat,
+			),
+			parseErrors = mathSpans?.onParseError.listen((span, error) => {
+				logger.logParseError(span.source, error.message)
+			}),
+			reader = (chunk: Buffer | string): void => {
+				if (!init) {
+					init = true
+					return
+				}
+				// Send data directly to terminal (logger hooks terminal.write)
+				const data = chunk.toString()
 
-		// Create logger (logs the processed output)
-		const logger = new TerminalWriteLogger(terminal, settings.value.enableTerminalWriteLogging, vaultPath)
-		
-		const reader = (chunk: Buffer | string): void => {
-			if (!init) {
-				init = true
-				return
+				writeOutput(terminal, data).catch((error: unknown) => {
+					activeSelf(terminal.element).console.error(error)
+				})
 			}
-			// Send data directly to terminal (logger hooks terminal.write)
-			const data = chunk.toString()
-			
-			tWritePromise(terminal, data).catch((error: unknown) => {
-				activeSelf(terminal.element).console.error(error)
-			})
-		}
 		await clearTerminal(terminal, true)
 		terminal.loadAddon(new DisposerAddon(
 			() => { shell.stdout.removeListener("data", reader) },
 			() => { shell.stderr.removeListener("data", reader) },
-			() => { latexAddon.dispose() }, // Clean up LaTeX addon
-			() => { logger.dispose() }, // Clean up logger
+			() => { richOutput?.dispose() },
+			() => { unlog() },
+			() => { parseErrors?.() },
+			() => { logger.dispose() },
 		))
 		shell.stdout.on("data", reader)
 		shell.stderr.on("data", reader)
@@ -944,6 +1165,7 @@ class UnixPseudoterminal implements Pseudoterminal {
 	static readonly #cmdio = 3
 	public readonly shell
 	public readonly onExit
+	protected readonly latex
 
 	public constructor(
 		protected readonly context: TerminalPlugin,
@@ -951,11 +1173,13 @@ class UnixPseudoterminal implements Pseudoterminal {
 			args,
 			cwd,
 			executable,
+			latex,
 			terminal,
 			pythonExecutable,
 		}: ShellPseudoterminalArguments,
 	) {
 		const { language } = context
+		this.latex = latex ?? DEFAULT_LATEX_OPTIONS
 		this.shell = spawnPromise(async () => {
 			if (isNil(pythonExecutable)) {
 				throw new Error(language
@@ -967,6 +1191,8 @@ class UnixPseudoterminal implements Pseudoterminal {
 					...process2.env,
 					// eslint-disable-next-line @typescript-eslint/naming-convention
 					PYTHONIOENCODING: DEFAULT_PYTHONIOENCODING,
+					[RICH_OUTPUT_ENVIRONMENT_VARIABLE]:
+						RICH_OUTPUT_OSC_IDENTIFIER.toString(),
 				}
 			if (!isNil(terminal)) { env["TERM"] = terminal }
 			return childProcess2.spawn(
@@ -1004,43 +1230,43 @@ class UnixPseudoterminal implements Pseudoterminal {
 	}
 
 	public async pipe(terminal: Terminal): Promise<void> {
-		const shell = await this.shell
-		
-		// Import LaTeRM addon and terminal write logger
-		const { LatexAddon } = await import("laterm")
-		const { TerminalWriteLogger } = await import("./terminal-write-logger.js")
-		const { settings } = this.context
-		const vaultPath = (this.context.app.vault.adapter as any).basePath || ""
-
-		// Create and load LaTeRM addon
-		const latexConfig: any = {
-			debugLogging: false  // Keep LaTeX debugging off by default
-		}
-		// Uncomment to enable LaTeX debug logging when terminal logging is on:
-		// if (settings.value.enableTerminalWriteLogging) {
-		//     latexConfig.debugLogging = true
-		//     latexConfig.onLog = (msg: string) => console.log(`[LaTeRM] ${msg}`)
-		// }
-		const latexAddon = new LatexAddon(latexConfig)
-		terminal.loadAddon(latexAddon)
-
-		// Create logger (logs the processed output)
-		const logger = new TerminalWriteLogger(terminal, settings.value.enableTerminalWriteLogging, vaultPath)
-		
-		const reader = (chunk: Buffer | string): void => {
+		const { context, latex } = this,
+			{ app: { vault: { adapter } }, settings } = context,
+			[shell, writeLogger] = await Promise.all([
+				this.shell,
+				import("./terminal-write-logger.js"),
+			]),
+			mathSpans = MathSpanAddon.get(terminal),
+			richOutput = mathSpans?.registerRichOutput(),
+			unlog = logLatex(context, mathSpans, latex),
+			// Logs the processed output
+			logger = new writeLogger.TerminalWriteLogger(
+				context,
+				terminal,
+				settings.value.enableTerminalWriteLogging,
+				adapter instanceof FileSystemAdapter ? adapter.getBasePath() : "",
+				terminalWriteLogDirectory(context),
+				settings.value.terminalWriteLogFormat,
+			),
+			parseErrors = mathSpans?.onParseError.listen((span, error) => {
+				logger.logParseError(span.source, error.message)
+			}),
+			reader = (chunk: Buffer | string): void => {
 			// Send data directly to terminal (logger hooks terminal.write)
-			const data = chunk.toString()
-			
-			tWritePromise(terminal, data).catch((error: unknown) => {
-				activeSelf(terminal.element).console.error(error)
-			})
-		}
+				const data = chunk.toString()
+
+				writeOutput(terminal, data).catch((error: unknown) => {
+					activeSelf(terminal.element).console.error(error)
+				})
+			}
 		await clearTerminal(terminal, true)
 		terminal.loadAddon(new DisposerAddon(
 			() => { shell.stdout.removeListener("data", reader) },
 			() => { shell.stderr.removeListener("data", reader) },
-			() => { latexAddon.dispose() }, // Clean up LaTeX addon
-			() => { logger.dispose() }, // Clean up logger
+			() => { richOutput?.dispose() },
+			() => { unlog() },
+			() => { parseErrors?.() },
+			() => { logger.dispose() },
 		))
 		shell.stdout.on("data", reader)
 		shell.stderr.on("data", reader)
@@ -1050,13 +1276,18 @@ class UnixPseudoterminal implements Pseudoterminal {
 			.finally(() => { writer.dispose() })
 	}
 
-	public async resize(columns: number, rows: number): Promise<void> {
+	public async resize(
+		columns: number,
+		rows: number,
+		width = 0,
+		height = 0,
+	): Promise<void> {
 		const [shell, stream2] = await Promise.all([this.shell, stream]),
 			cmdio = shell.stdio[UnixPseudoterminal.#cmdio]
 		if (!(cmdio instanceof stream2.Writable)) {
 			throw new TypeError(toJSONOrString(cmdio))
 		}
-		await writePromise(cmdio, `${columns}x${rows}\n`)
+		await writePromise(cmdio, `${columns}x${rows}x${width}x${height}\n`)
 	}
 }
 
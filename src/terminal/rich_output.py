@@ -0,0 +1,101 @@
+"""
+Emit rich output for LaTerM to render, instead of relying on `$...$` guessing.
+
+Each payload is written as
+
+    OSC <id> ; begin ; <type> ; <inline|display> ; <base64 payload> BEL
+    <fallback text>
+    OSC <id> ; end BEL
+
+where `<id>` is read from the `LATERM_RICH_OUTPUT` environment variable.
+Other terminals only see the fallback text.
+
+    import rich_output
+    rich_output.latex(r"\\frac{1}{2}")
+    rich_output.install()  # SymPy and `_repr_latex_` results, also in IPython
+"""
+
+from base64 import b64encode as _b64encode
+import builtins as _builtins
+from os import environ as _environ
+import sys as _sys
+from typing import Any as _Any, TextIO as _TextIO
+
+_ENVIRONMENT_VARIABLE = "LATERM_RICH_OUTPUT"
+_BEL = "\x07"
+
+
+def supported():
+    return _environ.get(_ENVIRONMENT_VARIABLE, "").isdigit()
+
+
+def write(
+    payload: str,
+    type: str = "text/latex",
+    display: bool = False,
+    fallback: str | None = None,
+    file: _TextIO | None = None,
+):
+    file = _sys.stdout if file is None else file
+    fallback = payload if fallback is None else fallback
+    if not supported():
+        file.write(fallback)
+        return
+    osc = f"\x1b]{_environ[_ENVIRONMENT_VARIABLE]};"
+    encoded = _b64encode(payload.encode("UTF-8")).decode("ASCII")
+    mode = "display" if display else "inline"
+    file.write(f"{osc}begin;{type};{mode};{encoded}{_BEL}{fallback}{osc}end{_BEL}")
+    file.flush()
+
+
+def latex(source: str, display: bool = False, fallback: str | None = None):
+    write(source, "text/latex", display, fallback)
+
+
+def _to_latex(value: object):
+    repr_latex = getattr(value, "_repr_latex_", None)
+    if callable(repr_latex):
+        ret = repr_latex()
+        if isinstance(ret, str):
+            return ret.strip().strip("$").strip()
+    if type(value).__module__.split(".")[0] == "sympy":
+        from sympy import latex as _latex  # type: ignore
+
+        return str(_latex(value))  # type: ignore
+    return None
+
+
+def install():
+    ipython: _Any = getattr(_builtins, "get_ipython", lambda: None)()
+    if ipython is not None:
+
+        def print_ipython(value: object, printer: _Any, cycle: bool):
+            source = None if cycle else _to_latex(value)
+            if source is None:
+                printer.text(repr(value))
+                return
+            latex(source, True, repr(value))
+
+        formatter = ipython.display_formatter.formatters["text/plain"]
+        formatter.for_type_by_name("sympy.core.basic", "Basic", print_ipython)
+        formatter.for_type_by_name(
+            "sympy.matrices.matrices", "MatrixBase", print_ipython
+        )
+        return
+    previous = _sys.displayhook
+
+    def displayhook(value: object):
+        source = None if value is None else _to_latex(value)
+        if source is None:
+            previous(value)
+            return
+        _builtins._ = value  # type: ignore
+        latex(source, True, repr(value))
+        _sys.stdout.write("\n")
+
+    _sys.displayhook = displayhook
+
+
+if __name__ == "__main__":
+    latex(" ".join(_sys.argv[1:]) or _sys.stdin.read().strip(), True)
+    _sys.stdout.write("\n")
@@ -1,6 +1,7 @@
 import { EditTerminalModal, TerminalView } from "./view.js"
 import {
 	Platform,
+	basename,
 	getDefaultSuggestModalInstructions,
 	revealPrivate,
 } from "@polyipseity/obsidian-plugin-library"
@@ -76,6 +77,30 @@ export class SelectProfileModal
 	}
 }
 
+export class SelectReplayLogModal extends FuzzySuggestModal<string> {
+	public constructor(
+		protected readonly context: TerminalPlugin,
+		protected readonly paths: readonly string[],
+	) {
+		super(context.app)
+		const { language: { value: i18n } } = context
+		this.setPlaceholder(i18n.t("components.select-replay-log.placeholder"))
+	}
+
+	public override getItems(): string[] {
+		return [...this.paths]
+	}
+
+	// eslint-disable-next-line @typescript-eslint/class-methods-use-this
+	public override getItemText(item: string): string {
+		return basename(item)
+	}
+
+	public override onChooseItem(item: string): void {
+		spawnReplay(this.context, item)
+	}
+}
+
 export function spawnTerminal(
 	context: TerminalPlugin,
 	profile: Settings.Profile,
@@ -88,6 +113,7 @@ export function spawnTerminal(
 		cwd: options.cwd ?? null,
 		focus: context.settings.value.focusOnNewInstance,
 		profile,
+		replay: null,
 		serial: null,
 	}
 	if (options.edit ?? false) {
@@ -106,3 +132,20 @@ export function spawnTerminal(
 		}
 	})()
 }
+
+export function spawnReplay(context: TerminalPlugin, path: string): void {
+	const { settings } = context
+	TerminalView.spawn(context, {
+		cwd: null,
+		focus: settings.value.focusOnNewInstance,
+		profile: Settings.Profile.defaultOfType(
+			"integrated",
+			settings.value.profiles,
+			Platform.CURRENT,
+		) ?? Settings.Profile.DEFAULTS.integrated,
+		replay: path,
+		serial: null,
+	}).catch((error: unknown) => {
+		self.console.error(error)
+	})
+}
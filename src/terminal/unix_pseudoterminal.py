@@ -62,11 +62,16 @@ if _sys.platform != "win32":
                     selector.unregister(_CMDIO)
                     return
                 for line in data.decode("UTF-8", "strict").splitlines():
-                    rows, columns = (int(ss.strip()) for ss in line.split("x", 2))
+                    # `columns x rows [x width x height]`, pixel sizes for images
+                    columns, rows, width, height, *_ = (
+                        *(int(ss.strip()) for ss in line.split("x")),
+                        0,
+                        0,
+                    )
                     _ioctl(
                         pty_fd,
                         _TIOCSWINSZ,
-                        _pack("HHHH", columns, rows, 0, 0),
+                        _pack("HHHH", rows, columns, width, height),
                     )
 
             selector.register(pty_fd, _EVENT_READ, pipe_pty)
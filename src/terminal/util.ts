@@ -1,11 +1,18 @@
 import type { DeepReadonly, DeepRequired } from "ts-essentials"
 import type {
+	IBuffer,
+	IBufferCell,
 	IDisposable,
 	IFunctionIdentifier,
+	ITheme,
 	Terminal,
 	ITerminalOptions as TerminalOptions,
 	ITerminalInitOnlyOptions as TerminalOptionsInit,
 } from "@xterm/xterm"
+import {
+	MAX_LOCK_PENDING,
+	TERMINAL_WRITE_LOG_DIRECTORY,
+} from "../magic.js"
 import {
 	acquireConditionally,
 	alternativeRegExp,
@@ -23,15 +30,47 @@ import {
 // eslint-disable-next-line @typescript-eslint/naming-convention
 import AsyncLock from "async-lock"
 import { BUNDLE } from "../import.js"
-import { MAX_LOCK_PENDING } from "../magic.js"
+import type { TerminalPlugin } from "../main.js"
 import ansi from "ansi-escape-sequences"
+import { normalizePath } from "obsidian"
 import { range } from "lodash-es"
 import { Set as valueSet } from "immutable"
 
 const
 	xterm =
 		dynamicRequireLazy<typeof import("@xterm/xterm")>(
-			BUNDLE, "@xterm/xterm")
+			BUNDLE, "@xterm/xterm"),
+	// Defaults of xterm.js for colors missing from the theme
+	DEFAULT_FOREGROUND = "#ffffff",
+	DEFAULT_BACKGROUND = "#000000",
+	ANSI_COLORS = deepFreeze([
+		["black", "#2e3436"],
+		["red", "#cc0000"],
+		["green", "#4e9a06"],
+		["yellow", "#c4a000"],
+		["blue", "#3465a4"],
+		["magenta", "#75507b"],
+		["cyan", "#06989a"],
+		["white", "#d3d7cf"],
+		["brightBlack", "#555753"],
+		["brightRed", "#ef2929"],
+		["brightGreen", "#8ae234"],
+		["brightYellow", "#fce94f"],
+		["brightBlue", "#729fcf"],
+		["brightMagenta", "#ad7fa8"],
+		["brightCyan", "#34e2e2"],
+		["brightWhite", "#eeeeec"],
+	] as const satisfies readonly (readonly [keyof ITheme, string])[]),
+	BRIGHT_COLOR_OFFSET = 8,
+	COLOR_CUBE_START = 16,
+	COLOR_CUBE_SIZE = 6,
+	// eslint-disable-next-line @typescript-eslint/no-magic-numbers
+	COLOR_CUBE_LEVELS = deepFreeze([0, 95, 135, 175, 215, 255]),
+	GRAYSCALE_START = 232,
+	GRAYSCALE_BASE = 8,
+	GRAYSCALE_STEP = 10,
+	HEXADECIMAL = 16,
+	RGB_HEX_DIGITS = 6
 
 type IFunctionIdentifier0 = DeepReadonly<DeepRequired<IFunctionIdentifier>>
 export const ESCAPE_SEQUENCE_INTRODUCER = "\u001b"
@@ -85,6 +124,13 @@ export function normalizeText(text: string): string {
 		.replace(replaceAllRegex("\n"), NORMALIZED_LINE_FEED)
 }
 
+export function terminalWriteLogDirectory(context: TerminalPlugin): string {
+	const { app: { vault: { configDir } }, manifest: { id } } = context
+	return normalizePath(
+		`${configDir}/plugins/${id}/${TERMINAL_WRITE_LOG_DIRECTORY}`,
+	)
+}
+
 export async function writePromise(
 	self0: Terminal,
 	data: Uint8Array | string,
@@ -92,6 +138,72 @@ export async function writePromise(
 	return new Promise(resolve => { self0.write(data, resolve) })
 }
 
+export function readLogicalLine(
+	buffer: IBuffer,
+	line: number,
+): { readonly text: string, readonly rows: number } {
+	const parts = []
+	for (let row = line; ; ++row) {
+		// Soft-wrapped rows belong to the same line
+		const wrapped = buffer.getLine(row + 1)?.isWrapped ?? false
+		parts.push(buffer.getLine(row)?.translateToString(!wrapped) ?? "")
+		if (!wrapped) { return { rows: parts.length, text: parts.join("") } }
+	}
+}
+
+function rgbColor(value: number): string {
+	return `#${value.toString(HEXADECIMAL).padStart(RGB_HEX_DIGITS, "0")}`
+}
+
+function paletteColor(theme: ITheme, index: number): string {
+	const named = ANSI_COLORS[index]
+	if (named) {
+		const [name, color] = named
+		return theme[name] ?? color
+	}
+	const extended = theme.extendedAnsi?.[index - COLOR_CUBE_START]
+	if (extended !== void 0) { return extended }
+	if (index >= GRAYSCALE_START) {
+		const level = GRAYSCALE_BASE + (index - GRAYSCALE_START) * GRAYSCALE_STEP
+		return `rgb(${level}, ${level}, ${level})`
+	}
+	const cube = index - COLOR_CUBE_START,
+		[red, green, blue] = [
+			Math.floor(cube / COLOR_CUBE_SIZE / COLOR_CUBE_SIZE),
+			Math.floor(cube / COLOR_CUBE_SIZE) % COLOR_CUBE_SIZE,
+			cube % COLOR_CUBE_SIZE,
+		].map(idx => COLOR_CUBE_LEVELS[idx] ?? 0)
+	return `rgb(${red}, ${green}, ${blue})`
+}
+
+export function cellColors(
+	cell: IBufferCell,
+	theme: ITheme,
+	brightBold = true,
+): CellColors {
+	const
+		foreground = cell.isFgRGB()
+			? rgbColor(cell.getFgColor())
+			: cell.isFgPalette()
+				? paletteColor(
+					theme,
+					// Same as `drawBoldTextInBrightColors` of xterm.js
+					brightBold && cell.isBold() &&
+						cell.getFgColor() < BRIGHT_COLOR_OFFSET
+						? cell.getFgColor() + BRIGHT_COLOR_OFFSET
+						: cell.getFgColor(),
+				)
+				: theme.foreground ?? DEFAULT_FOREGROUND,
+		background = cell.isBgRGB()
+			? rgbColor(cell.getBgColor())
+			: cell.isBgPalette()
+				? paletteColor(theme, cell.getBgColor())
+				: theme.background ?? DEFAULT_BACKGROUND
+	return cell.isInverse()
+		? { background: foreground, foreground: background }
+		: { background, foreground }
+}
+
 export class TerminalTextArea implements IDisposable {
 	protected static readonly margin = MAX_CHARACTER_WIDTH
 	protected static readonly splitters = new RegExp(
@@ -426,6 +538,11 @@ export namespace TerminalTextArea {
 	export type Options = Omit<InitialOptions, keyof PredefinedOptions>
 }
 
+export interface CellColors {
+	readonly foreground: string
+	readonly background: string
+}
+
 export interface CursoredText {
 	readonly string: string
 	readonly cursor: number
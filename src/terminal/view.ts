@@ -1,10 +1,22 @@
+import {
+	AlternateScreenAddon,
+	DisposerAddon,
+	DragAndDropAddon,
+	RightClickActionAddon,
+} from "./emulator-addons.js"
 import {
 	DEFAULT_ENCODING,
 	DEFAULT_SUCCESS_EXIT_CODES,
 	DOMClasses2,
+	MATH_STRESS_TEST_EQUATIONS,
+	PRESENTATION_FONT_SCALE,
+	PRESENTATION_MATH_SCALE,
+	PRESENTATION_THEME,
 } from "../magic.js"
+import type { DeepReadonly, DeepWritable } from "ts-essentials"
 import {
 	DialogModal,
+	EventEmitterLite,
 	FindComponent,
 	type FindComponent$,
 	type Fixed,
@@ -43,39 +55,49 @@ import {
 	useSettings,
 	writeStateCollaboratively,
 } from "@polyipseity/obsidian-plugin-library"
-import {
-	DisposerAddon,
-	DragAndDropAddon,
-	RightClickActionAddon,
-} from "./emulator-addons.js"
 import {
 	FileSystemAdapter,
+	type HoverParent,
+	type HoverPopover,
 	ItemView,
 	type Menu,
 	Scope,
 	type ViewStateResult,
 	type WorkspaceLeaf,
 } from "obsidian"
+import type { IMarker, ITheme } from "@xterm/xterm"
 import {
 	PROFILE_PROPERTIES,
 	openProfile,
 } from "./profile-properties.js"
-import { cloneDeep, noop } from "lodash-es"
+import {
+	RefPsuedoterminal,
+	ReplayPseudoterminal,
+	TextPseudoterminal,
+	writeOutput,
+} from "./pseudoterminal.js"
+import { cloneDeep, noop, range } from "lodash-es"
 import { mount, unmount } from "svelte"
 import { BUNDLE } from "../import.js"
-import type { DeepWritable } from "ts-essentials"
+import { EquationGalleryView } from "./equation-gallery.js"
+import { EquationPopoverAddon } from "./equation-popover.js"
+import type { ImageAddon } from "@xterm/addon-image"
 import type { LigaturesAddon } from "@xterm/addon-ligatures"
+import { MarkdownAddon } from "./markdown.js"
+import { MathSpanAddon } from "./math-spans.js"
 import { ProfileModal } from "../modals.js"
 import type { SearchAddon } from "@xterm/addon-search"
 import { Settings } from "../settings-data.js"
 import type { TerminalPlugin } from "../main.js"
-import { TextPseudoterminal } from "./pseudoterminal.js"
 import type { Unicode11Addon } from "@xterm/addon-unicode11"
 import type { WebLinksAddon } from "@xterm/addon-web-links"
 import { XtermTerminalEmulator } from "./emulator.js"
 import { writePromise } from "./util.js"
 
 const
+	xtermAddonImage =
+		dynamicRequire<typeof import("@xterm/addon-image")>(
+			BUNDLE, "@xterm/addon-image"),
 	xtermAddonLigatures =
 		dynamicRequire<typeof import("@xterm/addon-ligatures")>(
 			BUNDLE, "@xterm/addon-ligatures"),
@@ -89,6 +111,20 @@ const
 		dynamicRequire<typeof import("@xterm/addon-web-links")>(
 			BUNDLE, "@xterm/addon-web-links")
 
+function mergeTheme(
+	json: string,
+	profileTheme: DeepReadonly<ITheme> = {},
+): ITheme {
+	try {
+		const theme0: unknown = JSON.parse(json),
+			{ theme } = Settings.Profile.fixTerminalOptions({ theme: theme0 }).value
+		return cloneAsWritable({ ...theme, ...profileTheme }, cloneDeep)
+	} catch (error) {
+		self.console.warn("Invalid theme JSON:", error)
+		return cloneAsWritable(profileTheme, cloneDeep)
+	}
+}
+
 export class EditTerminalModal extends DialogModal {
 	protected readonly state
 	#profile: string | null = null
@@ -236,7 +272,7 @@ export class EditTerminalModal extends DialogModal {
 	}
 }
 
-export class TerminalView extends ItemView {
+export class TerminalView extends ItemView implements HoverParent {
 	public static readonly type =
 		new UnnamespacedID(DOMClasses2.Namespaced.TERMINAL)
 
@@ -244,10 +280,16 @@ export class TerminalView extends ItemView {
 	protected static readonly focusedScope = new Scope()
 
 	static #namespacedType: string
+
+	public hoverPopover: HoverPopover | null = null
+	public readonly onMathSpans =
+		new EventEmitterLite<readonly [MathSpanAddon | null]>()
+
 	#title0 = ""
 	#emulator0: TerminalView.EMULATOR | null = null
 	#find0: ReturnType<typeof FindComponent> | null = null
 	#state = TerminalView.State.DEFAULT
+	#leavePresentation: (() => void) | null = null
 
 	public constructor(
 		protected readonly context: TerminalPlugin,
@@ -257,6 +299,10 @@ export class TerminalView extends ItemView {
 		this.navigation = true
 	}
 
+	public get mathSpans(): MathSpanAddon | null {
+		return this.emulator?.addons.mathSpans ?? null
+	}
+
 	protected get isFocused(): boolean {
 		const { contentEl } = this
 		return contentEl.contains(contentEl.ownerDocument.activeElement)
@@ -281,9 +327,15 @@ export class TerminalView extends ItemView {
 	protected get name(): string {
 		const { context: plugin, state } = this,
 			{ value: i18n } = plugin.language,
-			{ profile } = state,
+			{ profile, replay } = state,
 			{ name, type } = profile
 		if (this.title) { return this.title }
+		if (replay !== null) {
+			return i18n.t("components.terminal.name.replay", {
+				interpolation: { escapeValue: false },
+				name: basename(replay, extname(replay)),
+			})
+		}
 		if (typeof name === "string" && name) { return name }
 		if ("executable" in profile) {
 			const { executable } = profile
@@ -300,6 +352,7 @@ export class TerminalView extends ItemView {
 	// eslint-disable-next-line @typescript-eslint/consistent-return
 	protected get hidesStatusBar(): boolean {
 		const { context: { settings } } = this
+		if (this.#leavePresentation) { return true }
 		switch (settings.value.hideStatusBar) {
 			case "focused":
 				return this.isFocused
@@ -332,6 +385,7 @@ export class TerminalView extends ItemView {
 
 	protected set emulator(val: TerminalView.EMULATOR | null) {
 		const { context: plugin } = this
+		this.leavePresentation()
 		this.#emulator0?.close(false).catch((error: unknown) => {
 			printError(
 				anyToError(error),
@@ -341,6 +395,8 @@ export class TerminalView extends ItemView {
 			)
 		})
 		this.#emulator0 = val
+		this.onMathSpans.emit(this.mathSpans)
+			.catch((error: unknown) => { self.console.error(error) })
 	}
 
 	protected set find(val: ReturnType<typeof FindComponent> | null) {
@@ -388,6 +444,66 @@ export class TerminalView extends ItemView {
 			icon: i18n.t("asset:commands.focus-on-last-terminal-icon"),
 			id: "focus-on-last-terminal",
 		})
+		for (const format of MathSpanAddon.COPY_FORMATS) {
+			addCommand(
+				context,
+				() => i18n.t(`commands.copy-terminal-selection-as-${format}`),
+				{
+					checkCallback: withLastFocusedView((checking, view) => {
+						if (!(view.emulator?.terminal.hasSelection() ?? false)) {
+							return false
+						}
+						if (!checking) { view.copySelection(format) }
+						return true
+					}, [false, true]),
+					// No hotkeys: hotkeys: [],
+					icon: i18n
+						.t(`asset:commands.copy-terminal-selection-as-${format}-icon`),
+					id: `copy-terminal-selection-as-${format}`,
+				},
+			)
+		}
+		addCommand(context, () => i18n.t("commands.stress-test-math-rendering"), {
+			checkCallback: withLastFocusedView((checking, view) => {
+				if (!view.emulator) { return false }
+				if (!checking) { view.stressTest() }
+				return true
+			}, [false, true]),
+			// No hotkeys: hotkeys: [],
+			icon: i18n.t("asset:commands.stress-test-math-rendering-icon"),
+			id: "stress-test-math-rendering",
+		})
+		addCommand(context, () => i18n.t("commands.open-equation-gallery"), {
+			checkCallback: withLastFocusedView((checking, view) => {
+				if (!view.emulator) { return false }
+				if (!checking) { view.openEquationGallery() }
+				return true
+			}, [false, true]),
+			// No hotkeys: hotkeys: [],
+			icon: i18n.t("asset:commands.open-equation-gallery-icon"),
+			id: "open-equation-gallery",
+		})
+		addCommand(context, () => i18n.t("commands.toggle-markdown-rendering"), {
+			checkCallback: withLastFocusedView((checking, view) => {
+				const markdown = view.emulator?.addons.markdown
+				if (markdown?.enabled !== true) { return false }
+				if (!checking) { markdown.toggle() }
+				return true
+			}, [false, true]),
+			// No hotkeys: hotkeys: [],
+			icon: i18n.t("asset:commands.toggle-markdown-rendering-icon"),
+			id: "toggle-markdown-rendering",
+		})
+		addCommand(context, () => i18n.t("commands.toggle-presentation-mode"), {
+			checkCallback: withLastFocusedView((checking, view) => {
+				if (!view.emulator) { return false }
+				if (!checking) { view.togglePresentation() }
+				return true
+			}, [false, true]),
+			// No hotkeys: hotkeys: [],
+			icon: i18n.t("asset:commands.toggle-presentation-mode-icon"),
+			id: "toggle-presentation-mode",
+		})
 		const focusedScopeIDs = new Set([
 				addCommand(
 					context,
@@ -509,8 +625,7 @@ export class TerminalView extends ItemView {
 
 	public override onPaneMenu(menu: Menu, source: string): void {
 		super.onPaneMenu(menu, source)
-		const { context, context: { language: { value: i18n } },
-			leaf, app: { vault: { adapter } } } = this
+		const { context, context: { language: { value: i18n } }, leaf } = this
 		menu
 			.addSeparator()
 			.addItem(item => item
@@ -522,6 +637,24 @@ export class TerminalView extends ItemView {
 				.setIcon(i18n.t("asset:components.terminal.menus.find-icon"))
 				.setDisabled(this.find !== null)
 				.onClick(() => { this.startFind() }))
+			.addItem(item => item
+				.setTitle(i18n.t("components.terminal.menus.equation-gallery"))
+				.setIcon(i18n
+					.t("asset:components.terminal.menus.equation-gallery-icon"))
+				.setDisabled(!this.emulator)
+				.onClick(() => { this.openEquationGallery() }))
+			.addSeparator()
+		for (const format of MathSpanAddon.COPY_FORMATS) {
+			menu.addItem(item => item
+				.setTitle(i18n
+					.t(`components.terminal.menus.copy-selection-as-${format}`))
+				.setIcon(i18n.t(
+					`asset:components.terminal.menus.copy-selection-as-${format}-icon`,
+				))
+				.setDisabled(!(this.emulator?.terminal.hasSelection() ?? false))
+				.onClick(() => { this.copySelection(format) }))
+		}
+		menu
 			.addSeparator()
 			.addItem(item => item
 				.setTitle(i18n.t("components.terminal.menus.copy"))
@@ -553,24 +686,225 @@ export class TerminalView extends ItemView {
 				.setTitle(i18n.t("components.terminal.menus.save-as-HTML"))
 				.setIcon(i18n.t("asset:components.terminal.menus.save-as-HTML-icon"))
 				.setDisabled(!this.emulator?.addons.serialize)
-				.onClick(async () => {
-					const ser = this.emulator?.addons.serialize
-					if (!ser) { return }
-					await saveFileAs(
-						context,
-						adapter,
-						new File(
-							[
-								ser.serializeAsHTML({
-									includeGlobalBackground: false,
-									onlySelection: false,
-								}),
-							],
-							`${this.name}.html`,
-							{ type: `text/html; charset=${DEFAULT_ENCODING};` },
-						),
-					)
-				}))
+				.onClick(async () => this.saveAsHTML(false)))
+			.addItem(item => item
+				.setTitle(i18n.t("components.terminal.menus.save-as-standalone-HTML"))
+				.setIcon(i18n
+					.t("asset:components.terminal.menus.save-as-standalone-HTML-icon"))
+				.setDisabled(!this.emulator?.addons.serialize)
+				.onClick(async () => this.saveAsHTML(true)))
+	}
+
+	protected async saveAsHTML(standalone: boolean): Promise<void> {
+		const { app: { vault: { adapter } }, context, emulator, name } = this
+		if (!emulator) { return }
+		const { addons: { mathSpans, serialize } } = emulator
+		await saveFileAs(
+			context,
+			adapter,
+			new File(
+				[
+					await mathSpans.serializeAsHTML(serialize, {
+						math: context.settings.value.htmlExportMath,
+						onlySelection: false,
+						standalone,
+						title: name,
+					}),
+				],
+				`${name}.html`,
+				{ type: `text/html; charset=${DEFAULT_ENCODING};` },
+			),
+		)
+	}
+
+	protected copySelection(format: MathSpanAddon.CopyFormat): void {
+		const { context, context: { language: { value: i18n } }, emulator } = this
+		if (!emulator) { return }
+		const { addons: { mathSpans, serialize }, terminal } = emulator,
+			self0 = activeSelf(terminal.element),
+			{ clipboard } = self0.navigator;
+		(async (): Promise<void> => {
+			try {
+				if (format === "HTML") {
+					await clipboard.write([
+						new self0.ClipboardItem({
+							// eslint-disable-next-line @typescript-eslint/naming-convention
+							"text/html": new Blob(
+								[
+									await mathSpans.serializeAsHTML(serialize, {
+										math: context.settings.value.htmlExportMath,
+										onlySelection: true,
+										standalone: false,
+										title: this.name,
+									}),
+								],
+								{ type: "text/html" },
+							),
+							// eslint-disable-next-line @typescript-eslint/naming-convention
+							"text/plain": new Blob(
+								[mathSpans.serializeSelection("plain")],
+								{ type: "text/plain" },
+							),
+						}),
+					])
+					return
+				}
+				await clipboard.writeText(mathSpans.serializeSelection(format))
+			} catch (error) {
+				printError(anyToError(error), () =>
+					i18n.t("errors.error-copying-terminal-selection"), context)
+			}
+		})()
+	}
+
+	protected openEquationGallery(): void {
+		const { context, context: { language: { value: i18n } } } = this
+		EquationGalleryView.open(context, this).catch((error: unknown) => {
+			printError(anyToError(error), () =>
+				i18n.t("errors.error-opening-equation-gallery"), context)
+		})
+	}
+
+	protected stressTest(): void {
+		const {
+			context,
+			context: { language: { value: i18n }, settings },
+			emulator,
+		} = this
+		if (!emulator) { return }
+		const { terminal } = emulator,
+			start = self.performance.now();
+		(async (): Promise<void> => {
+			// Without waiting in between, like output of a pseudoterminal
+			await Promise.all(range(1, MATH_STRESS_TEST_EQUATIONS + 1)
+				.map(async idx => writeOutput(terminal, [
+					`${idx}: $\\sum_{k=1}^{${idx}} k^2`,
+					`\\frac{${idx}(${idx}+1)(2 \\cdot ${idx}+1)}{6}$\r\n`,
+				].join(" = "))))
+			notice2(
+				() => i18n.t("notices.stress-test-math-rendering-done", {
+					count: MATH_STRESS_TEST_EQUATIONS,
+					duration: Math.round(self.performance.now() - start),
+					interpolation: { escapeValue: false },
+				}),
+				settings.value.noticeTimeout,
+				context,
+			)
+		})().catch((error: unknown) => {
+			printError(anyToError(error), () =>
+				i18n.t("errors.error-stress-testing-math-rendering"), context)
+		})
+	}
+
+	protected togglePresentation(): void {
+		if (this.#leavePresentation) {
+			this.leavePresentation()
+			return
+		}
+		const {
+			context,
+			context: { language: { value: i18n }, settings, statusBarHider },
+			emulator,
+		} = this
+		if (!emulator) { return }
+		this.#leavePresentation = this.present(emulator)
+		statusBarHider.update()
+		notice2(
+			() => i18n.t("notices.presentation-mode"),
+			settings.value.noticeTimeout,
+			context,
+		)
+	}
+
+	protected leavePresentation(): void {
+		const leave = this.#leavePresentation
+		if (!leave) { return }
+		this.#leavePresentation = null
+		leave()
+		this.context.statusBarHider.update()
+	}
+
+	protected present(emulator: TerminalView.EMULATOR): () => void {
+		const
+			{
+				app: { workspace: { leftSplit, rightSplit } },
+				containerEl,
+				contentEl,
+				context,
+				leaf,
+			} = this,
+			{ addons: { mathSpans }, terminal } = emulator,
+			{ buffer, element, options } = terminal,
+			{ fontSize, theme } = options,
+			{ scale } = mathSpans,
+			screen = element?.querySelector(".xterm-screen") ?? contentEl,
+			spotlight = createChildElement(screen, "div", ele => {
+				ele.classList
+					.add(`${TerminalView.type.namespaced(context)}-spotlight`)
+			}),
+			// Sidebars containing the terminal itself are kept
+			splits = [leftSplit, rightSplit]
+				.filter(split => !split.collapsed && leaf.getRoot() !== split),
+			warn = (error: unknown): void => {
+				activeSelf(contentEl).console.warn(error)
+			}
+		// Output since the last command entered
+		let latest: IMarker | null = null
+		const
+			updateSpotlight = (): void => {
+				const { active: { type, viewportY } } = buffer,
+					{ rows } = terminal,
+					dimmed = latest && !latest.isDisposed && type === "normal"
+						? Math.min(Math.max(latest.line - viewportY, 0), rows)
+						: 0
+				spotlight.style.height =
+					`${dimmed * screen.clientHeight / Math.max(rows, 1)}px`
+			},
+			disposables = [
+				terminal.onData(data => {
+					if (!data.includes("\r")) { return }
+					latest?.dispose()
+					latest = terminal.registerMarker(0)
+				}),
+				terminal.onRender(updateSpotlight),
+				terminal.onScroll(updateSpotlight),
+			],
+			onKeyDown = (event: KeyboardEvent): void => {
+				// Full-screen programs handle scrolling themselves
+				if (buffer.active.type !== "normal") { return }
+				const { key, shiftKey } = event
+				if (key === "PageUp" || key === "PageDown") {
+					terminal.scrollPages(key === "PageUp" ? -1 : 1)
+				} else if (shiftKey && (key === "ArrowUp" || key === "ArrowDown")) {
+					terminal.scrollLines(key === "ArrowUp" ? -1 : 1)
+				} else {
+					return
+				}
+				event.preventDefault()
+				event.stopPropagation()
+			}
+		if (fontSize !== void 0) {
+			options.fontSize = fontSize * PRESENTATION_FONT_SCALE
+		}
+		options.theme = { ...theme, ...PRESENTATION_THEME }
+		mathSpans.scale = scale * PRESENTATION_MATH_SCALE
+		containerEl.classList.add("is-presenting")
+		for (const split of splits) { split.collapse() }
+		contentEl.addEventListener("keydown", onKeyDown, { capture: true })
+		// Lets the running program adapt to the new size
+		emulator.resize(false).catch(warn)
+		return () => {
+			contentEl.removeEventListener("keydown", onKeyDown, { capture: true })
+			for (const split of splits) { split.expand() }
+			containerEl.classList.remove("is-presenting")
+			for (const disposable of disposables) { disposable.dispose() }
+			latest?.dispose()
+			spotlight.remove()
+			mathSpans.scale = scale
+			if (fontSize !== void 0) { options.fontSize = fontSize }
+			options.theme = theme ?? {}
+			emulator.resize(false).catch(warn)
+		}
 	}
 
 	protected focus(): void {
@@ -687,7 +1021,7 @@ export class TerminalView extends ItemView {
 				context,
 				context: { language: { onChangeLanguage, value: i18n }, settings },
 				leaf,
-				state: { profile, cwd, serial },
+				state: { profile, cwd, replay, serial },
 				app: { workspace: { requestSaveLayout } },
 			} = this,
 			noticeSpawn = (): void => {
@@ -727,6 +1061,8 @@ export class TerminalView extends ItemView {
 					noticeSpawn()
 					const
 						[
+							// eslint-disable-next-line @typescript-eslint/naming-convention
+							{ ImageAddon },
 							// eslint-disable-next-line @typescript-eslint/naming-convention
 							{ LigaturesAddon },
 							// eslint-disable-next-line @typescript-eslint/naming-convention
@@ -736,6 +1072,7 @@ export class TerminalView extends ItemView {
 							// eslint-disable-next-line @typescript-eslint/naming-convention
 							{ WebLinksAddon },
 						] = await Promise.all([
+							xtermAddonImage,
 							xtermAddonLigatures,
 							xtermAddonSearch,
 							xtermAddonUnicode11,
@@ -744,6 +1081,13 @@ export class TerminalView extends ItemView {
 						emulator = new TerminalView.EMULATOR(
 							ele,
 							async terminal => {
+								if (replay !== null) {
+									return new RefPsuedoterminal(new ReplayPseudoterminal(
+										context,
+										replay,
+										profile.type === "invalid" ? void 0 : profile.latex,
+									))
+								}
 								if (serial) {
 									await writePromise(
 										terminal,
@@ -784,7 +1128,7 @@ export class TerminalView extends ItemView {
 									}))
 								return pty
 							},
-							serial ?? void 0,
+							replay === null ? serial ?? void 0 : void 0,
 							{
 								...profile.type === "invalid"
 									? {}
@@ -792,18 +1136,14 @@ export class TerminalView extends ItemView {
 								allowProposedApi: true,
 								theme: profile.type === "invalid" 
 									? {}
-									: (() => {
-										try {
-											const globalTheme = JSON.parse(this.context.settings.value.theme)
-											const profileTheme = profile.terminalOptions.theme || {}
-											return { ...globalTheme, ...profileTheme }
-										} catch (error) {
-											self.console.warn("Invalid theme JSON:", error)
-											return profile.terminalOptions.theme || {}
-										}
-									})(),
+									: mergeTheme(
+										this.context.settings.value.theme,
+										profile.terminalOptions.theme,
+									),
 							},
 							{
+								// Loaded first so that later addons see its state
+								alternateScreen: new AlternateScreenAddon(),
 								disposer: new DisposerAddon(
 									() => { ele.remove() },
 									() => { this.title = "" },
@@ -814,7 +1154,18 @@ export class TerminalView extends ItemView {
 									() => { this.find?.setResults("") },
 								),
 								dragAndDrop: new DragAndDropAddon(ele),
+								equationPopover: new EquationPopoverAddon(context, this),
+								// Sixel and the iTerm2 inline image protocol
+								image: new ImageAddon({}),
 								ligatures: new LigaturesAddon({}),
+								markdown: new MarkdownAddon(
+									context,
+									profile.type === "invalid" ? void 0 : profile.latex,
+								),
+								mathSpans: new MathSpanAddon(
+									context,
+									profile.type === "invalid" ? void 0 : profile.latex,
+								),
 								rightClickAction: new RightClickActionAddon(
 									profile.type === "invalid"
 										? void 0
@@ -918,9 +1269,14 @@ export namespace TerminalView {
 	export const EMULATOR = XtermTerminalEmulator<Addons>
 	export type EMULATOR = XtermTerminalEmulator<Addons>
 	export interface Addons {
+		readonly alternateScreen: AlternateScreenAddon
 		readonly disposer: DisposerAddon
 		readonly dragAndDrop: DragAndDropAddon
+		readonly equationPopover: EquationPopoverAddon
+		readonly image: ImageAddon
 		readonly ligatures: LigaturesAddon
+		readonly markdown: MarkdownAddon
+		readonly mathSpans: MathSpanAddon
 		readonly rightClickAction: RightClickActionAddon
 		readonly search: SearchAddon
 		readonly unicode11: Unicode11Addon
@@ -931,12 +1287,14 @@ export namespace TerminalView {
 		readonly cwd: string | null
 		readonly serial: XtermTerminalEmulator.State | null
 		readonly focus: boolean
+		readonly replay: string | null
 	}
 	export namespace State {
 		export const DEFAULT: State = deepFreeze({
 			cwd: null,
 			focus: false,
 			profile: Settings.Profile.DEFAULTS.invalid,
+			replay: null,
 			serial: null,
 		})
 		export function fix(self0: unknown): Fixed<State> {
@@ -945,6 +1303,7 @@ export namespace TerminalView {
 				cwd: fixTyped(DEFAULT, unc, "cwd", ["string", "null"]),
 				focus: fixTyped(DEFAULT, unc, "focus", ["boolean"]),
 				profile: Settings.Profile.fix(unc.profile).value,
+				replay: fixTyped(DEFAULT, unc, "replay", ["string", "null"]),
 				serial: unc.serial === null
 					? null
 					: XtermTerminalEmulator.State.fix(unc.serial).value,